@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
 import { FileService, AuthService, FileMetadata } from '../services/supabase';
+import { backendDocumentService } from '../services/backendDocumentService';
+import { DuplicateAction, DuplicateMatch, RelatedDocument } from '@shared/api';
 import Navigation from '../components/Navigation';
 import './FileUpload.css';
 
@@ -16,11 +18,33 @@ export default function FileUpload() {
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [relatedDocuments, setRelatedDocuments] = useState<Record<string, RelatedDocument[]>>({});
 
   useEffect(() => {
     loadUploadedFiles();
   }, []);
 
+  useEffect(() => {
+    loadRelatedDocuments(uploadedFiles.filter(file => file.processed && file.documentId));
+  }, [uploadedFiles]);
+
+  const loadRelatedDocuments = async (files: UploadedFile[]) => {
+    // Only files processed since the last load are fetched; the others keep what they have
+    const newFiles = files.filter(file => !(file.id in relatedDocuments));
+    if (newFiles.length === 0) return;
+
+    const related = await Promise.all(newFiles.map(async file => {
+      try {
+        return [file.id, await backendDocumentService.getRelatedDocuments(file.documentId!)] as const;
+      } catch (error) {
+        console.warn(`Could not load related documents for ${file.name}:`, error);
+        return [file.id, []] as const;
+      }
+    }));
+
+    setRelatedDocuments(current => ({ ...current, ...Object.fromEntries(related) }));
+  };
+
   const loadUploadedFiles = async () => {
     try {
       const currentUser = await AuthService.getCurrentUser();
@@ -53,7 +77,11 @@ export default function FileUpload() {
       console.log('Uploading files for user:', currentUser.email);
       
       const uploadPromises = Array.from(files).map(async (file) => {
-        const result = await FileService.uploadFile(file, currentUser.id);
+        let result = await FileService.uploadFile(file, currentUser.id);
+        if (result.duplicateAction === 'pending' && result.duplicateOf) {
+          const action = chooseDuplicateAction(file.name, result.duplicateOf);
+          result = await FileService.uploadFile(file, currentUser.id, action);
+        }
         if (!result.success) {
           throw new Error(result.error || 'Upload failed');
         }
@@ -72,6 +100,19 @@ export default function FileUpload() {
     }
   };
 
+  const chooseDuplicateAction = (fileName: string, duplicate: DuplicateMatch): DuplicateAction => {
+    const match = duplicate.type === 'near'
+      ? `${Math.round(duplicate.similarity * 100)}% similar to`
+      : 'identical to';
+
+    if (window.confirm(`"${fileName}" is ${match} "${duplicate.documentName}", which is already uploaded.\n\nOK: replace the existing document\nCancel: keep both or skip`)) {
+      return 'replace';
+    }
+    return window.confirm(`Keep both "${fileName}" and "${duplicate.documentName}"?\n\nOK: keep both\nCancel: skip this upload`)
+      ? 'keep'
+      : 'skip';
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -252,7 +293,7 @@ export default function FileUpload() {
             <div className="section-header">
               <h2 className="section-title">Upload Documents</h2>
               <p className="section-subtitle">
-                Drag and drop files here or click to browse. Supported formats: PDF, DOC, DOCX, TXT
+                Drag and drop files here or click to browse. Supported formats: PDF, DOC, DOCX, TXT, Markdown, HTML, RTF, spreadsheets (CSV, TSV, XLSX), images (PNG, JPG, TIFF, BMP, WEBP)
               </p>
             </div>
             
@@ -280,7 +321,7 @@ export default function FileUpload() {
                   multiple
                   onChange={handleFileInput}
                   className="file-input"
-                  accept=".pdf,.doc,.docx,.txt"
+                  accept=".pdf,.doc,.docx,.txt,.md,.markdown,.html,.htm,.rtf,.csv,.tsv,.xlsx,.png,.jpg,.jpeg,.tif,.tiff,.bmp,.webp"
                 />
                 <button className="upload-btn" onClick={() => (document.querySelector('.file-input') as HTMLInputElement)?.click()}>
                   Select Files
@@ -357,6 +398,19 @@ export default function FileUpload() {
                             <strong>Summary:</strong> {file.summary}
                           </div>
                         )}
+                        {relatedDocuments[file.id]?.length > 0 && (
+                          <div className="related-section">
+                            <strong>Related documents:</strong>
+                            <ul className="related-list">
+                              {relatedDocuments[file.id].map((related) => (
+                                <li key={related.documentId} className="related-item">
+                                  <span className="related-name">{related.documentName}</span>
+                                  <span className="related-score">{Math.round(related.similarity * 100)}% similar</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -944,7 +944,7 @@ export default function Index() {
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".pdf,.txt,.doc,.docx"
+        accept=".pdf,.txt,.doc,.docx,.md,.markdown,.html,.htm,.rtf,.csv,.tsv,.xlsx,.png,.jpg,.jpeg,.tif,.tiff,.bmp,.webp"
         onChange={handleFileUpload}
         style={{ display: 'none' }}
       />
@@ -2,24 +2,24 @@
 // Interfaces with the backend document processing API to offload heavy operations
 // This prevents frontend unresponsiveness by moving document processing to the server
 
+import { DocumentSearchFilters, DocumentSearchRequest, QuerySuggestion, RelatedContentResponse, RelatedDocument, SearchTermMatch } from '@shared/api';
+
 interface DocumentProcessingRequest {
   filePath: string;
   documentId: string;
   documentName: string;
 }
 
-interface DocumentSearchRequest {
-  query: string;
-  documentIds?: string[];
-}
-
 interface DocumentChunk {
   id: string;
   content: string;
   pageNum?: number;
+  endPageNum?: number; // last page when the chunk spans several
   wordCount: number;
   relevanceScore: number;
   matches: string[];
+  highlightedContent?: string; // snippet with <mark> around matched terms
+  matchOffsets?: SearchTermMatch[];
 }
 
 interface SearchResult {
@@ -97,10 +97,21 @@ class BackendDocumentService {
   }
 
   // Search documents on the backend
-  async searchDocuments(query: string, documentIds?: string[]): Promise<SearchResult[]> {
+  async searchDocuments(query: string, documentIds?: string[], filters?: DocumentSearchFilters): Promise<SearchResult[]> {
+    const { results } = await this.searchDocumentsWithSuggestion(query, documentIds, filters);
+    return results;
+  }
+
+  // Search documents on the backend, along with a "did you mean" correction when the query has misspelled words
+  async searchDocumentsWithSuggestion(
+    query: string,
+    documentIds?: string[],
+    filters?: DocumentSearchFilters
+  ): Promise<{ results: SearchResult[]; suggestion?: QuerySuggestion }> {
     const request: DocumentSearchRequest = {
       query,
-      documentIds
+      documentIds,
+      filters
     };
 
     const response = await fetch(`${this.baseUrl}/api/documents/search`, {
@@ -117,7 +128,23 @@ class BackendDocumentService {
     }
 
     const result = await response.json();
-    return result.results;
+    return { results: result.results, suggestion: result.suggestion };
+  }
+
+  // Find documents similar to an indexed document ("more like this")
+  async getRelatedDocuments(documentId: string, maxDocuments = 5): Promise<RelatedDocument[]> {
+    const response = await fetch(`${this.baseUrl}/api/documents/${documentId}/related?maxDocuments=${maxDocuments}&maxChunks=1`);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return []; // Document not indexed yet
+      }
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to find related documents');
+    }
+
+    const result: RelatedContentResponse = await response.json();
+    return result.documents || [];
   }
 
   // Get document statistics
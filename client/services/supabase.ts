@@ -1,6 +1,8 @@
 // Enhanced Supabase configuration and services
 // This version uses real Netlify functions when available, with mock fallbacks
 
+import { DuplicateAction, DuplicateMatch } from '@shared/api';
+
 // Authentication services
 export interface AuthUser {
   id: string;
@@ -12,6 +14,9 @@ export interface FileUploadResponse {
   success: boolean;
   fileUrl?: string;
   error?: string;
+  duplicateOf?: DuplicateMatch; // existing document the upload duplicates
+  duplicateAction?: 'pending' | 'skipped' | 'replaced' | 'kept';
+  documentId?: string; // backend document the upload was stored as
 }
 
 // Real API service for Netlify functions
@@ -37,10 +42,15 @@ class APIService {
     }
   }
 
-  static async uploadFile(file: File): Promise<FileUploadResponse> {
+  static async uploadFile(file: File, duplicateAction: DuplicateAction = 'ask', ocrLanguage?: string): Promise<FileUploadResponse> {
     try {
+      // Fields go before the file so parsers that stream the body see them first
       const formData = new FormData();
-      formData.append('file', file);
+      formData.append('duplicateAction', duplicateAction);
+      if (ocrLanguage) {
+        formData.append('ocrLanguage', ocrLanguage);
+      }
+      formData.append('files', file);
       
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -52,10 +62,14 @@ class APIService {
       }
 
       const result = await response.json();
+      const processedFile = result.processedFiles?.[0];
       return {
-        success: result.success,
+        success: result.success && processedFile?.success !== false,
         fileUrl: result.fileUrl,
-        error: result.error,
+        error: processedFile?.error || result.error,
+        duplicateOf: processedFile?.duplicateOf,
+        duplicateAction: processedFile?.duplicateAction,
+        documentId: processedFile?.documentId,
       };
     } catch (error) {
       console.error('Real upload failed, using mock:', error);
@@ -205,6 +219,7 @@ export interface FileMetadata {
   processed?: boolean;
   content?: string;
   summary?: string;
+  documentId?: string; // backend document, for related-document lookups
 }
 
 // Mock AI Analysis Service (fallback)
@@ -472,12 +487,13 @@ class MockFileService {
 }
 
 export class FileService {
-  static async uploadFile(file: File, userId: string): Promise<FileUploadResponse> {
+  static async uploadFile(file: File, userId: string, duplicateAction?: DuplicateAction): Promise<FileUploadResponse> {
     try {
       // Try real API first
-      const result = await APIService.uploadFile(file);
+      const result = await APIService.uploadFile(file, duplicateAction);
       
-      if (result.success) {
+      // A skipped duplicate leaves the existing document in place
+      if (result.success && result.duplicateAction !== 'skipped') {
         // Store file metadata in localStorage
         const files = JSON.parse(localStorage.getItem('userFiles') || '[]');
         const newFile = {
@@ -490,7 +506,8 @@ export class FileService {
           userId: userId,
           processed: false,
           content: '',
-          summary: ''
+          summary: '',
+          documentId: result.documentId
         };
         
         files.push(newFile);
@@ -0,0 +1,25 @@
+-- Create tables backing the semantic search index (VECTOR_STORE=supabase)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS indexed_documents (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  document JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS document_embeddings (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES indexed_documents(id) ON DELETE CASCADE,
+  chunk_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  tags TEXT[] DEFAULT '{}',
+  embedding VECTOR NOT NULL,
+  model TEXT NOT NULL,
+  dimension INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_document_id ON document_embeddings(document_id);
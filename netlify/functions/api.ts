@@ -470,41 +470,39 @@ async function handleFileUpload(event: any) {
       };
     }
 
-    // Parse the multipart form data
+    // Parse the multipart form data: the file comes in the "files" part, other fields by their names
     const body = event.body;
     const parts = body.split(`--${boundary}`);
     
     let fileContent = '';
     let fileName = '';
     let fileType = '';
+    const fields: Record<string, string> = {};
     
     for (const part of parts) {
-      if (part.includes('Content-Disposition: form-data')) {
-        const lines = part.split('\r\n');
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          
-          // Extract filename
-          if (line.includes('filename=')) {
-            fileName = line.split('filename=')[1].replace(/"/g, '');
-          }
-          
-          // Extract content type
-          if (line.includes('Content-Type:')) {
-            fileType = line.split('Content-Type:')[1].trim();
-          }
-          
-          // Extract file content (content starts after the empty line)
-          if (line === '' && i + 1 < lines.length) {
-            fileContent = lines.slice(i + 1).join('\r\n').trim();
-            // Remove the boundary ending
-            fileContent = fileContent.replace(/--$/, '').trim();
-            break;
-          }
-        }
+      const headerEnd = part.indexOf('\r\n\r\n');
+      if (headerEnd === -1 || !part.includes('Content-Disposition: form-data')) continue;
+
+      const headers = part.slice(0, headerEnd);
+      // Content runs from after the blank line to the line break before the next boundary
+      const content = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+      const name = headers.match(/\bname="([^"]*)"/)?.[1];
+
+      if (name === 'files' && !fileName) {
+        fileName = headers.match(/filename="([^"]*)"/)?.[1] || '';
+        fileType = headers.match(/Content-Type:\s*(.+)/i)?.[1].trim() || '';
+        fileContent = content.trim();
+      } else if (name) {
+        fields[name] = content.trim();
       }
     }
 
+    // Duplicate detection needs the document store of the Express server (server/routes/file-upload.ts);
+    // this function keeps no documents, so duplicateAction is accepted but has no effect here
+    if (fields.duplicateAction) {
+      console.log(`duplicateAction "${fields.duplicateAction}" ignored: duplicate handling is server-only`);
+    }
+
     if (!fileName || !fileContent) {
       return {
         statusCode: 400,
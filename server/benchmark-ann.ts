@@ -0,0 +1,130 @@
+import { HnswIndex } from './services/hnswIndex';
+
+// Recall/latency benchmark of the HNSW index against the exact brute-force scan
+// Usage: tsx server/benchmark-ann.ts [vectors] [dimension] [queries]
+
+const VECTOR_COUNT = parseInt(process.argv[2] || '20000', 10);
+const DIMENSION = parseInt(process.argv[3] || '256', 10);
+const QUERY_COUNT = parseInt(process.argv[4] || '200', 10);
+const K = 10;
+const CLUSTERS = 50;
+const EF_VALUES = [16, 32, 64, 128, 256];
+
+// Seeded generator so runs are comparable
+let randomState = 1234;
+function random(): number {
+  randomState = (randomState + 0x6d2b79f5) | 0;
+  let t = randomState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+// Chunks of real documents cluster by topic, so sample around random centroids
+const centroids = Array.from({ length: CLUSTERS }, () =>
+  Array.from({ length: DIMENSION }, () => gaussian())
+);
+
+function sampleVector(): number[] {
+  const centroid = centroids[Math.floor(random() * CLUSTERS)];
+  return normalize(centroid.map(value => value + gaussian() * 0.8));
+}
+
+function bruteForce(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  const scored: Array<{ id: string; similarity: number }> = [];
+  for (const [id, vector] of vectors) {
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * query[i];
+    }
+    scored.push({ id, similarity: dot });
+  }
+  return scored
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(entry => entry.id);
+}
+
+function timeIt<T>(fn: () => T): { result: T; ms: number } {
+  const start = process.hrtime.bigint();
+  const result = fn();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+function runQueries(
+  index: HnswIndex,
+  vectors: Map<string, number[]>,
+  queries: number[][],
+  label: string
+): void {
+  const exact = queries.map(query => timeIt(() => bruteForce(vectors, query, K)));
+  const exactMs = exact.reduce((sum, run) => sum + run.ms, 0) / queries.length;
+
+  console.log(`\n${label}: ${vectors.size} vectors, ${queries.length} queries, recall@${K}`);
+  console.log(`   brute force   ${exactMs.toFixed(2)} ms/query   recall 1.000`);
+
+  for (const ef of EF_VALUES) {
+    let hits = 0;
+    let totalMs = 0;
+
+    queries.forEach((query, i) => {
+      const { result, ms } = timeIt(() => index.search(query, K, { ef }));
+      totalMs += ms;
+      const truth = new Set(exact[i].result);
+      hits += result.filter(match => truth.has(match.id)).length;
+    });
+
+    const recall = hits / (queries.length * K);
+    const latency = totalMs / queries.length;
+    console.log(
+      `   hnsw ef=${String(ef).padEnd(4)} ${latency.toFixed(2)} ms/query   recall ${recall.toFixed(3)}   ` +
+      `speedup ${(exactMs / latency).toFixed(1)}x`
+    );
+  }
+}
+
+async function benchmark() {
+  console.log(`🧪 ANN benchmark: ${VECTOR_COUNT} vectors x ${DIMENSION} dimensions\n`);
+
+  const vectors = new Map<string, number[]>();
+  for (let i = 0; i < VECTOR_COUNT; i++) {
+    vectors.set(`doc${Math.floor(i / 20)}_chunk_${i % 20}`, sampleVector());
+  }
+  const queries = Array.from({ length: QUERY_COUNT }, () => sampleVector());
+
+  const index = new HnswIndex();
+  const build = timeIt(() => {
+    for (const [id, vector] of vectors) {
+      index.add(id, vector);
+    }
+  });
+  console.log(`🔨 Built HNSW index in ${(build.ms / 1000).toFixed(1)}s (${(build.ms / VECTOR_COUNT).toFixed(2)} ms/insert)`);
+
+  runQueries(index, vectors, queries, '📊 After build');
+
+  // Delete 10% of the documents the way removeDocument does, then re-check recall
+  const removed = Array.from(vectors.keys()).filter(id => parseInt(id.slice(3), 10) % 10 === 0);
+  const removal = timeIt(() => {
+    removed.forEach(id => {
+      index.remove(id);
+      vectors.delete(id);
+    });
+  });
+  console.log(`\n🗑️  Removed ${removed.length} vectors in ${(removal.ms / 1000).toFixed(1)}s`);
+
+  runQueries(index, vectors, queries, '📊 After deletes');
+}
+
+benchmark().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
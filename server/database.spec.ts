@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { searchDocuments, supabase } from "./database";
+import { QuerySyntaxError } from "./services/queryParser";
+
+// Query builder standing in for Supabase: records the full-text searches and returns the given rows
+const fakeDocumentsTable = (rows: any[]) => {
+  const textSearches: unknown[][] = [];
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    lt: () => builder,
+    gt: () => builder,
+    textSearch: (...args: unknown[]) => {
+      textSearches.push(args);
+      return builder;
+    },
+    order: async () => ({ data: rows, error: null }),
+  };
+  vi.spyOn(supabase, "from").mockReturnValue(builder);
+  return textSearches;
+};
+
+const row = (id: number, content: string) => ({ id, name: `doc-${id}`, original_name: `Doc ${id}.txt`, content, upload_date: "2024-01-01" });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("searchDocuments", () => {
+  it("should pass free text with unmatched brackets or quotes straight to the full-text search", async () => {
+    for (const query of ["what is AI (and ML", 'rock & roll "quote', "A AND"]) {
+      const textSearches = fakeDocumentsTable([row(1, "Rock and roll history")]);
+
+      const documents = await searchDocuments(query);
+
+      expect(textSearches).toEqual([["content", query]]);
+      expect(documents.map((doc) => doc.id)).toEqual([1]);
+    }
+  });
+
+  it("should read the search syntax only when asked to", async () => {
+    fakeDocumentsTable([row(1, "pruning a neural network"), row(2, "pruning a draft network")]);
+
+    const documents = await searchDocuments('"neural network" OR -draft', { booleanSyntax: true });
+
+    expect(documents.map((doc) => doc.id)).toEqual([1]);
+    await expect(searchDocuments("what is AI (and ML", { booleanSyntax: true })).rejects.toBeInstanceOf(QuerySyntaxError);
+  });
+});
@@ -1,3 +1,7 @@
+import { QueryNode, parseSearchQuery } from './services/queryParser';
+import { evaluateQuery, matchesField } from './services/queryEvaluator';
+import { KeywordIndex } from './services/keywordIndex';
+
 // Initialize Supabase client with fallback for development
 const supabaseUrl = process.env.SUPABASE_URL || 'https://placeholder.supabase.co';
 const supabaseKey = process.env.SUPABASE_ANON_KEY || 'placeholder_key';
@@ -42,12 +46,33 @@ export interface Document {
     hasTables: boolean;
     processingTime: number;
     extractedAt: Date;
+    pageOffsets?: number[];
+    headings?: Array<{ start: number; end: number; level: number }>;
+    links?: Array<{ start: number; end: number; url: string }>;
+    tables?: Array<{ start: number; end: number; headerEnd: number }>;
+    ocr?: {
+      engine: string;
+      renderer?: string;
+      language?: string;
+      rotation?: number;
+      confidence: number;
+      pageConfidence?: number[];
+      failedPages?: number[];
+    };
+    chunkingVersion?: string;
+    pipelineVersion?: string;
+    fingerprint?: {
+      fileHash?: string;
+      contentHash: string;
+      minhash: number[];
+    };
   };
   chunks: Array<{
     id: string;
     content: string;
     metadata: {
       page?: number;
+      endPage?: number;
       section?: string;
       wordCount: number;
       startIndex: number;
@@ -337,22 +362,34 @@ export async function deleteDocument(documentId: number): Promise<void> {
 }
 
 /**
- * Search documents by content (full-text search)
+ * Search documents by content (full-text search).
+ * With booleanSyntax, queries using the search syntax (phrases, AND/OR/NOT, -exclude, tag:, type:, before:,
+ * after:) narrow the rows in the database where they can and are then evaluated exactly against the
+ * returned documents, and malformed queries throw a QuerySyntaxError. Otherwise the query is plain text.
  */
-export async function searchDocuments(query: string): Promise<Document[]> {
+export async function searchDocuments(query: string, options: { booleanSyntax?: boolean } = {}): Promise<Document[]> {
+  const parsed = options.booleanSyntax ? parseSearchQuery(query) : null;
+  if (parsed && !parsed.root) return [];
+
   try {
-    const { data, error } = await supabase
+    let request = supabase
       .from('documents')
-      .select('*')
-      .textSearch('content', query)
-      .order('upload_date', { ascending: false });
+      .select('*');
+
+    if (parsed?.structured) {
+      request = applyQueryConstraints(request, parsed.root);
+    } else {
+      request = request.textSearch('content', query);
+    }
+
+    const { data, error } = await request.order('upload_date', { ascending: false });
 
     if (error) {
       console.error('Error searching documents:', error);
       throw new Error(`Failed to search documents: ${error.message}`);
     }
 
-    return data.map(row => ({
+    const documents: Document[] = data.map(row => ({
       id: row.id,
       name: row.name,
       originalName: row.original_name,
@@ -368,12 +405,67 @@ export async function searchDocuments(query: string): Promise<Document[]> {
       userId: row.user_id,
       sessionId: row.session_id
     }));
+
+    return parsed?.structured ? filterByQuery(documents, parsed.root) : documents;
   } catch (error) {
     console.error('Database error searching documents:', error);
     throw error;
   }
 }
 
+/**
+ * Push the parts of a query the database can answer exactly into the request: top-level words,
+ * phrases and exclusions become a websearch full-text query, type:, before: and after: become column filters.
+ * Anything nested under OR is left to the in-memory evaluation.
+ */
+function applyQueryConstraints(request: any, root: QueryNode): any {
+  const clauses = root.type === 'and' ? root.children : [root];
+  const textParts: string[] = [];
+
+  for (const clause of clauses) {
+    const negated = clause.type === 'not';
+    const node = clause.type === 'not' ? clause.child : clause;
+
+    if (node.type === 'term' && /^[\p{L}\p{N}]+$/u.test(node.value)) {
+      textParts.push(`${negated ? '-' : ''}${node.value}`);
+    } else if (node.type === 'phrase') {
+      textParts.push(`${negated ? '-' : ''}"${node.value.replace(/"/g, '')}"`);
+    } else if (node.type === 'field' && !negated) {
+      if (node.field === 'type') request = request.eq('file_type', node.value);
+      if (node.field === 'before') request = request.lt('upload_date', new Date(node.value).toISOString());
+      if (node.field === 'after') request = request.gt('upload_date', new Date(node.value).toISOString());
+    }
+  }
+
+  if (textParts.some(part => !part.startsWith('-'))) {
+    request = request.textSearch('content', textParts.join(' '), { type: 'websearch', config: 'english' });
+  }
+  return request;
+}
+
+/**
+ * Evaluate a parsed query exactly against documents
+ */
+function filterByQuery(documents: Document[], root: QueryNode): Document[] {
+  const index = new KeywordIndex();
+  const byKey = new Map<string, Document>();
+  documents.forEach(doc => {
+    index.add(String(doc.id), doc.content || '');
+    byKey.set(String(doc.id), doc);
+  });
+
+  const matching = evaluateQuery(root, {
+    index,
+    keys: new Set(byKey.keys()),
+    matchesField: (key, field) => {
+      const doc = byKey.get(key);
+      return matchesField(field, { tags: doc.tags, fileType: doc.fileType, uploadDate: doc.uploadDate });
+    }
+  });
+
+  return documents.filter(doc => matching.has(String(doc.id)));
+}
+
 /**
  * Save chat session
  */
@@ -9,7 +9,10 @@ import { dirname } from "path";
 import { handleFileUpload, getUploadedFiles, handleProcessDocuments, getProcessedDocuments } from "./routes/file-upload";
 import { handlePdfProcess } from "./routes/pdf-process";
 import { handleWebSearch } from "./routes/web-search";
-import { processDocument, searchDocuments, getDocumentStats, getMemoryStats, clearDocument, batchProcessDocuments } from "./routes/document-processing";
+import { getReindexStatus, startReindex } from "./routes/admin";
+import { processDocument, searchDocuments, getRelatedContent, getDocumentStats, getMemoryStats, clearDocument, batchProcessDocuments } from "./routes/document-processing";
+import { semanticSearchService } from "./services/semanticSearch";
+import { reindexer } from "./services/reindexer";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -25,6 +28,18 @@ app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 // Initialize database
 console.log('Initializing development server...');
 
+// Rehydrate the semantic search index from the vector store
+semanticSearchService.initialize()
+  .then(() => {
+    // Bring documents indexed with older chunking options or another embedding model up to date
+    if (process.env.AUTO_REINDEX !== 'false') {
+      reindexer.start();
+    }
+  })
+  .catch(error => {
+    console.error('Failed to initialize semantic search index:', error);
+  });
+
 // Example API routes
 app.get("/api/ping", (_req, res) => {
   const ping = process.env.PING_MESSAGE ?? "ping";
@@ -43,11 +58,16 @@ app.post("/api/web-search", handleWebSearch);
 // Backend document processing routes
 app.post("/api/documents/process", processDocument);
 app.post("/api/documents/search", searchDocuments);
+app.get("/api/documents/:documentId/related", getRelatedContent);
 app.get("/api/documents/:documentId/stats", getDocumentStats);
 app.get("/api/documents/memory-stats", getMemoryStats);
 app.delete("/api/documents/:documentId", clearDocument);
 app.post("/api/documents/batch-process", batchProcessDocuments);
 
+// Admin routes
+app.get("/api/admin/reindex", getReindexStatus);
+app.post("/api/admin/reindex", startReindex);
+
 app.listen(PORT, () => {
   console.log(`🚀 Development API Server running on http://localhost:${PORT}`);
   console.log(`📚 Available endpoints:`);
@@ -59,4 +79,7 @@ app.listen(PORT, () => {
   console.log(`   POST /api/pdf/process`);
   console.log(`   POST /api/documents/process`);
   console.log(`   POST /api/documents/search`);
+  console.log(`   GET  /api/documents/:documentId/related`);
+  console.log(`   GET  /api/admin/reindex`);
+  console.log(`   POST /api/admin/reindex`);
 });
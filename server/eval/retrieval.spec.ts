@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+import { describe, it, expect, beforeAll } from "vitest";
+import { EvalCorpus, FIXTURES_DIR, SearchFn, findRegressions, formatReport, loadEvalCorpus, runRetrievalEval } from "./retrievalEval";
+import { RetrievalMetrics } from "./retrievalMetrics";
+
+// Retrieval quality gate. Fails when a metric drops more than TOLERANCE below fixtures/baseline.json.
+// After an intended change in quality, refresh the baseline with
+//   UPDATE_RETRIEVAL_BASELINE=1 npx vitest --run server/eval
+
+const BASELINE_PATH = path.join(FIXTURES_DIR, "baseline.json");
+const TOLERANCE = 0.02;
+const K = 5; // chunks the chat handler puts into the prompt
+
+// The fixture documents are a few hundred words long, so they are chunked more finely than the
+// 1000-word default to give each one several chunks to choose from
+const PROCESSING = { chunkSize: 100, overlapSize: 20 };
+
+// Calibrated for the hashing embeddings the evaluation uses, whose similarities run lower than a real model's
+const SIMILARITY_THRESHOLD = 0.2;
+
+const pipelines: Record<string, SearchFn> = {
+  hybrid: (service, query, k) => service.hybridSearch(query, { maxResults: k, similarityThreshold: SIMILARITY_THRESHOLD }),
+  semantic: (service, query, k) => service.search(query, { maxResults: k, similarityThreshold: SIMILARITY_THRESHOLD }),
+};
+
+const updateBaseline = process.env.UPDATE_RETRIEVAL_BASELINE === "1";
+const baseline: Record<string, RetrievalMetrics> = fs.existsSync(BASELINE_PATH)
+  ? JSON.parse(fs.readFileSync(BASELINE_PATH, "utf-8"))
+  : {};
+const measured: Record<string, RetrievalMetrics> = {};
+
+describe("retrieval evaluation", () => {
+  let corpus: EvalCorpus;
+
+  beforeAll(async () => {
+    corpus = await loadEvalCorpus(PROCESSING);
+  });
+
+  for (const [name, search] of Object.entries(pipelines)) {
+    it(`should not regress ${name} retrieval quality`, async () => {
+      const report = await runRetrievalEval(corpus, search, K);
+      console.info(formatReport(name, report));
+
+      measured[name] = roundMetrics(report.mean);
+      if (updateBaseline) {
+        fs.writeFileSync(BASELINE_PATH, JSON.stringify({ ...baseline, ...measured }, null, 2) + "\n");
+        return;
+      }
+
+      expect(baseline[name], `no baseline for ${name}, run with UPDATE_RETRIEVAL_BASELINE=1`).toBeDefined();
+      expect(findRegressions(report.mean, baseline[name], TOLERANCE)).toEqual([]);
+    });
+  }
+});
+
+function roundMetrics(metrics: RetrievalMetrics): RetrievalMetrics {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return { recall: round(metrics.recall), reciprocalRank: round(metrics.reciprocalRank), ndcg: round(metrics.ndcg) };
+}
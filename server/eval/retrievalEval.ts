@@ -0,0 +1,179 @@
+// Retrieval evaluation harness
+// Runs the golden queries in fixtures/golden.json against the documents in fixtures/corpus, processed
+// and indexed the same way uploads are, and scores the rankings. Relevance is judged by passage text
+// rather than chunk IDs: a result is relevant when its chunk covers most of a golden passage, so the
+// golden set stays valid when the chunker changes.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DocumentProcessor, ProcessedDocument, ProcessingOptions } from '../services/documentProcessor';
+import { SemanticSearchService, SearchResult } from '../services/semanticSearch';
+import { InMemoryVectorStore } from '../services/vectorStore';
+import { HashingEmbeddingProvider } from '../services/embeddingProvider';
+import { RetrievalMetrics, evaluateRanking, meanMetrics } from './retrievalMetrics';
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export interface GoldenPassage {
+  document: string;  // corpus file name without extension
+  passage: string;   // text quoted from the document, whitespace-insensitive
+  grade: number;     // 2 = answers the query, 1 = related
+}
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  relevant: GoldenPassage[];
+}
+
+export interface EvalCorpus {
+  service: SemanticSearchService;
+  documents: Map<string, ProcessedDocument>;
+  queries: GoldenQuery[];
+}
+
+export interface QueryReport extends RetrievalMetrics {
+  id: string;
+  query: string;
+}
+
+export interface EvalReport {
+  k: number;
+  mean: RetrievalMetrics;
+  queries: QueryReport[];
+}
+
+export interface Regression {
+  metric: keyof RetrievalMetrics;
+  baseline: number;
+  actual: number;
+}
+
+export type SearchFn = (service: SemanticSearchService, query: string, k: number) => Promise<SearchResult[]>;
+
+interface PassageSpan {
+  id: string;
+  documentId: string;
+  start: number;
+  end: number;
+}
+
+// Share of a golden passage a chunk has to contain to count as retrieving it
+const MIN_PASSAGE_COVERAGE = 0.5;
+
+/**
+ * Process and index the fixture corpus in an isolated in-memory search service.
+ * Uses the deterministic hashing embeddings so scores do not depend on an API or change between runs.
+ */
+export async function loadEvalCorpus(
+  processing: ProcessingOptions = {},
+  fixturesDir = FIXTURES_DIR
+): Promise<EvalCorpus> {
+  const service = new SemanticSearchService({
+    store: new InMemoryVectorStore(),
+    embeddingProvider: new HashingEmbeddingProvider(),
+    syncFromDatabase: false,
+    languageModel: null
+  });
+
+  const corpusDir = path.join(fixturesDir, 'corpus');
+  const documents = new Map<string, ProcessedDocument>();
+
+  for (const file of fs.readdirSync(corpusDir).sort()) {
+    const processed = await DocumentProcessor.processDocument(path.join(corpusDir, file), file, processing);
+    const document = { ...processed, id: path.parse(file).name };
+    documents.set(document.id, document);
+    await service.indexDocument(document);
+  }
+
+  const { queries } = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'golden.json'), 'utf-8')) as { queries: GoldenQuery[] };
+  return { service, documents, queries };
+}
+
+/**
+ * Run every golden query and score the top k results
+ */
+export async function runRetrievalEval(corpus: EvalCorpus, search: SearchFn, k: number): Promise<EvalReport> {
+  const queries: QueryReport[] = [];
+
+  for (const golden of corpus.queries) {
+    const passages = golden.relevant.map((relevant, index) =>
+      locatePassage(corpus.documents, relevant, `${golden.id}#${index}`)
+    );
+    const grades = new Map(passages.map((passage, index) => [passage.id, golden.relevant[index].grade]));
+
+    const results = await search(corpus.service, golden.query, k);
+    const ranking = results.map(result => coveredPassages(corpus.documents, result, passages));
+
+    queries.push({ id: golden.id, query: golden.query, ...evaluateRanking(ranking, grades, k) });
+  }
+
+  return { k, mean: meanMetrics(queries), queries };
+}
+
+/**
+ * Metrics that fell more than the tolerance below the baseline
+ */
+export function findRegressions(actual: RetrievalMetrics, baseline: RetrievalMetrics, tolerance: number): Regression[] {
+  return (Object.keys(baseline) as Array<keyof RetrievalMetrics>)
+    .filter(metric => actual[metric] < baseline[metric] - tolerance)
+    .map(metric => ({ metric, baseline: baseline[metric], actual: actual[metric] }));
+}
+
+/**
+ * Human-readable summary with the queries that missed, for the test output
+ */
+export function formatReport(name: string, report: EvalReport): string {
+  const format = (value: number) => value.toFixed(3);
+  const lines = [
+    `${name}: recall@${report.k} ${format(report.mean.recall)}, MRR ${format(report.mean.reciprocalRank)}, nDCG@${report.k} ${format(report.mean.ndcg)}`
+  ];
+
+  report.queries
+    .filter(query => query.recall < 1)
+    .forEach(query => lines.push(`  ${query.id} ("${query.query}"): recall ${format(query.recall)}, RR ${format(query.reciprocalRank)}`));
+
+  return lines.join('\n');
+}
+
+/**
+ * Character span of a golden passage in its processed document
+ */
+function locatePassage(documents: Map<string, ProcessedDocument>, relevant: GoldenPassage, id: string): PassageSpan {
+  const document = documents.get(relevant.document);
+  if (!document) {
+    throw new Error(`Golden passage ${id} refers to unknown document "${relevant.document}"`);
+  }
+
+  // Extraction may reflow whitespace, so match the words with any whitespace between them
+  const pattern = relevant.passage.trim().split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const match = new RegExp(pattern).exec(document.content);
+  if (!match) {
+    throw new Error(`Golden passage ${id} not found in "${relevant.document}": ${relevant.passage}`);
+  }
+
+  return { id, documentId: document.id, start: match.index, end: match.index + match[0].length };
+}
+
+/**
+ * IDs of the golden passages a search result's chunk covers
+ */
+function coveredPassages(documents: Map<string, ProcessedDocument>, result: SearchResult, passages: PassageSpan[]): string[] {
+  const document = documents.get(result.documentId);
+  const chunk = document?.chunks.find(c => c.id === result.chunkId);
+  if (!chunk) return [];
+
+  const start = chunk.metadata.startOffset ?? document.content.indexOf(chunk.content);
+  const end = chunk.metadata.endOffset ?? start + chunk.content.length;
+
+  return passages
+    .filter(passage => {
+      if (passage.documentId !== result.documentId) return false;
+      const overlap = Math.min(end, passage.end) - Math.max(start, passage.start);
+      return overlap >= (passage.end - passage.start) * MIN_PASSAGE_COVERAGE;
+    })
+    .map(passage => passage.id);
+}
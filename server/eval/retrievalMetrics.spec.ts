@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { evaluateRanking, meanMetrics, ndcgAtK, recallAtK, reciprocalRank } from "./retrievalMetrics";
+
+const grades = new Map([
+  ["answer", 2],
+  ["related", 1],
+]);
+
+describe("retrievalMetrics", () => {
+  it("should compute recall at the cutoff", () => {
+    const ranking = [[], ["related"], [], ["answer"]];
+    expect(recallAtK(ranking, grades, 2)).toBe(0.5);
+    expect(recallAtK(ranking, grades, 4)).toBe(1);
+  });
+
+  it("should use the rank of the first relevant result for the reciprocal rank", () => {
+    expect(reciprocalRank([[], [], ["related"], ["answer"]], grades)).toBeCloseTo(1 / 3);
+    expect(reciprocalRank([[], []], grades)).toBe(0);
+  });
+
+  it("should score the ideal order as 1 and a swapped order below it", () => {
+    expect(ndcgAtK([["answer"], ["related"]], grades, 5)).toBe(1);
+
+    // DCG = 1 + 3 / log2(3), ideal = 3 + 1 / log2(3)
+    const swapped = (1 + 3 / Math.log2(3)) / (3 + 1 / Math.log2(3));
+    expect(ndcgAtK([["related"], ["answer"]], grades, 5)).toBeCloseTo(swapped);
+  });
+
+  it("should not reward the same passage twice", () => {
+    const repeated = evaluateRanking([["answer"], ["answer"], ["answer"]], grades, 3);
+    expect(repeated.recall).toBe(0.5);
+    expect(repeated.ndcg).toBeCloseTo(3 / (3 + 1 / Math.log2(3)));
+  });
+
+  it("should average metrics over queries", () => {
+    const mean = meanMetrics([
+      { recall: 1, reciprocalRank: 1, ndcg: 1 },
+      { recall: 0, reciprocalRank: 0.5, ndcg: 0.2 },
+    ]);
+    expect(mean).toEqual({ recall: 0.5, reciprocalRank: 0.75, ndcg: 0.6 });
+  });
+});
@@ -0,0 +1,82 @@
+// Ranking metrics for retrieval evaluation
+// A ranking is the list of returned results, each given as the IDs of the relevant passages it covers
+// (usually none or one). Relevance is graded: 2 for a passage that answers the query, 1 for a useful one.
+
+export interface RetrievalMetrics {
+  recall: number;          // fraction of relevant passages covered in the top k
+  reciprocalRank: number;  // 1 / rank of the first relevant result, 0 when none is returned
+  ndcg: number;            // normalized discounted cumulative gain over the top k
+}
+
+/**
+ * Fraction of relevant passages covered by the top k results
+ */
+export function recallAtK(ranking: string[][], grades: Map<string, number>, k: number): number {
+  if (grades.size === 0) return 0;
+
+  const found = new Set<string>();
+  ranking.slice(0, k).forEach(passages => passages.forEach(id => {
+    if (grades.has(id)) found.add(id);
+  }));
+  return found.size / grades.size;
+}
+
+/**
+ * Reciprocal rank of the first result covering any relevant passage
+ */
+export function reciprocalRank(ranking: string[][], grades: Map<string, number>): number {
+  const index = ranking.findIndex(passages => passages.some(id => grades.has(id)));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * nDCG@k with exponential gain. A passage only earns gain at the first result that covers it, so
+ * returning the same passage twice is not rewarded. A result covering several passages earns all of
+ * their gains, which can beat the one-passage-per-rank ideal, so the score is capped at 1.
+ */
+export function ndcgAtK(ranking: string[][], grades: Map<string, number>, k: number): number {
+  const credited = new Set<string>();
+  let dcg = 0;
+
+  ranking.slice(0, k).forEach((passages, index) => {
+    let gain = 0;
+    passages.forEach(id => {
+      if (!grades.has(id) || credited.has(id)) return;
+      credited.add(id);
+      gain += 2 ** grades.get(id) - 1;
+    });
+    dcg += gain / Math.log2(index + 2);
+  });
+
+  const ideal = Array.from(grades.values())
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+
+  return ideal > 0 ? Math.min(1, dcg / ideal) : 0;
+}
+
+/**
+ * All metrics for one query
+ */
+export function evaluateRanking(ranking: string[][], grades: Map<string, number>, k: number): RetrievalMetrics {
+  return {
+    recall: recallAtK(ranking, grades, k),
+    reciprocalRank: reciprocalRank(ranking.slice(0, k), grades),
+    ndcg: ndcgAtK(ranking, grades, k)
+  };
+}
+
+/**
+ * Mean of each metric over a set of queries
+ */
+export function meanMetrics(metrics: RetrievalMetrics[]): RetrievalMetrics {
+  const mean = (pick: (m: RetrievalMetrics) => number) =>
+    metrics.length === 0 ? 0 : metrics.reduce((sum, m) => sum + pick(m), 0) / metrics.length;
+
+  return {
+    recall: mean(m => m.recall),
+    reciprocalRank: mean(m => m.reciprocalRank),
+    ndcg: mean(m => m.ndcg)
+  };
+}
@@ -8,7 +8,10 @@ import { dirname } from "path";
 import { handleFileUpload, getUploadedFiles, handleProcessDocuments, getProcessedDocuments } from "./routes/file-upload";
 import { handlePdfProcess } from "./routes/pdf-process";
 import { handleWebSearch } from "./routes/web-search";
-import { processDocument, searchDocuments, getDocumentStats, getMemoryStats, clearDocument, batchProcessDocuments } from "./routes/document-processing";
+import { getReindexStatus, startReindex } from "./routes/admin";
+import { processDocument, searchDocuments, getRelatedContent, getDocumentStats, getMemoryStats, clearDocument, batchProcessDocuments } from "./routes/document-processing";
+import { semanticSearchService } from "./services/semanticSearch";
+import { reindexer } from "./services/reindexer";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -24,6 +27,18 @@ app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 // Initialize database
 console.log('Initializing server...');
 
+// Rehydrate the semantic search index from the vector store
+semanticSearchService.initialize()
+  .then(() => {
+    // Bring documents indexed with older chunking options or another embedding model up to date
+    if (process.env.AUTO_REINDEX !== 'false') {
+      reindexer.start();
+    }
+  })
+  .catch(error => {
+    console.error('Failed to initialize semantic search index:', error);
+  });
+
 // Example API routes
 app.get("/api/ping", (_req, res) => {
   const ping = process.env.PING_MESSAGE ?? "ping";
@@ -42,11 +57,16 @@ app.post("/api/web-search", handleWebSearch);
 // Backend document processing routes
 app.post("/api/documents/process", processDocument);
 app.post("/api/documents/search", searchDocuments);
+app.get("/api/documents/:documentId/related", getRelatedContent);
 app.get("/api/documents/:documentId/stats", getDocumentStats);
 app.get("/api/documents/memory-stats", getMemoryStats);
 app.delete("/api/documents/:documentId", clearDocument);
 app.post("/api/documents/batch-process", batchProcessDocuments);
 
+// Admin routes
+app.get("/api/admin/reindex", getReindexStatus);
+app.post("/api/admin/reindex", startReindex);
+
 // Serve static files in production only
 if (process.env.NODE_ENV === 'production') {
   const distPath = path.join(path.dirname(fileURLToPath(import.meta.url)), '../dist/spa');
@@ -0,0 +1,73 @@
+// Admin Routes
+// Maintenance operations on the search index. Requests must send ADMIN_API_KEY in the X-Admin-Key
+// header; without a configured key the routes are only open outside production.
+
+import { Request, RequestHandler, Response } from "express";
+import { reindexer } from "../services/reindexer";
+
+function authorize(req: Request, res: Response): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    if (process.env.NODE_ENV !== "production") return true;
+    res.status(403).json({
+      success: false,
+      error: "ADMIN_API_KEY not configured"
+    });
+    return false;
+  }
+  if (req.get("x-admin-key") !== adminKey) {
+    res.status(401).json({
+      success: false,
+      error: "Invalid or missing admin key"
+    });
+    return false;
+  }
+  return true;
+}
+
+// Progress of the background reindex
+export const getReindexStatus: RequestHandler = async (req, res) => {
+  if (!authorize(req, res)) return;
+
+  try {
+    const progress = await reindexer.getProgress();
+    res.json({
+      success: true,
+      progress
+    });
+  } catch (error) {
+    console.error("Get reindex status error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get reindex status"
+    });
+  }
+};
+
+// Start reindexing stale documents; the work continues in the background
+export const startReindex: RequestHandler = async (req, res) => {
+  if (!authorize(req, res)) return;
+
+  try {
+    if (reindexer.isRunning()) {
+      return res.status(409).json({
+        success: false,
+        error: "A reindex is already running",
+        progress: await reindexer.getProgress()
+      });
+    }
+
+    reindexer.start().catch(error => console.error("Reindex error:", error));
+
+    res.status(202).json({
+      success: true,
+      progress: await reindexer.getProgress()
+    });
+  } catch (error) {
+    console.error("Start reindex error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to start reindex"
+    });
+  }
+};
@@ -5,9 +5,16 @@
 import { RequestHandler } from "express";
 import { getAllDocuments, updateDocumentContent } from "../database";
 import { DocumentProcessor } from "../services/documentProcessor";
+import { semanticSearchService, SearchResult } from "../services/semanticSearch";
+import { highlightChunk } from "../services/highlighter";
+import { ParsedQuery, QuerySyntaxError, parseSearchQuery } from "../services/queryParser";
+import { DocumentSearchFilters, DocumentSearchRequest, RelatedContentResponse, RerankMethod, RetrievalMode } from "../../shared/api";
 import path from "path";
 import fs from "fs";
 
+const RERANK_METHODS: RerankMethod[] = ["none", "lexical", "llm"];
+const RETRIEVAL_MODES: RetrievalMode[] = ["standard", "multi-query", "hyde"];
+
 // Process and index a document
 export const processDocument: RequestHandler = async (req, res) => {
   try {
@@ -52,10 +59,67 @@ export const processDocument: RequestHandler = async (req, res) => {
   }
 };
 
+// Validate filters from a search request body
+function parseSearchFilters(filters: DocumentSearchFilters = {}, documentIds?: string[]): DocumentSearchFilters {
+  for (const field of ['uploadedAfter', 'uploadedBefore'] as const) {
+    if (filters[field] && isNaN(new Date(filters[field]).getTime())) {
+      throw new Error(`Invalid ${field} date: ${filters[field]}`);
+    }
+  }
+
+  return {
+    ...filters,
+    documentIds: documentIds?.length ? documentIds.map(String) : filters.documentIds
+  };
+}
+
+// Group chunk-level results by document in the shape the frontend expects
+function groupResultsByDocument(query: string, results: SearchResult[]) {
+  const grouped = new Map<string, {
+    documentId: string;
+    documentName: string;
+    totalRelevanceScore: number;
+    chunks: any[];
+  }>();
+
+  results.forEach(result => {
+    let group = grouped.get(result.documentId);
+    if (!group) {
+      group = {
+        documentId: result.documentId,
+        documentName: result.metadata.documentName,
+        totalRelevanceScore: 0,
+        chunks: []
+      };
+      grouped.set(result.documentId, group);
+    }
+
+    const snippet = highlightChunk(query, result.content, {
+      documentOffset: semanticSearchService.getChunkOffset(result.documentId, result.chunkId) ?? undefined
+    });
+
+    group.totalRelevanceScore += result.similarity;
+    group.chunks.push({
+      id: result.chunkId,
+      ...(result.metadata.page !== undefined && { pageNum: result.metadata.page, endPageNum: result.metadata.endPage }),
+      content: snippet.text,
+      highlightedContent: snippet.highlighted,
+      snippetRange: { start: snippet.start, end: snippet.end },
+      wordCount: result.metadata.wordCount,
+      relevanceScore: result.similarity,
+      matches: Array.from(new Set(snippet.matches.map(match => match.text.toLowerCase()))),
+      matchOffsets: snippet.matches,
+      ranking: result.ranking
+    });
+  });
+
+  return Array.from(grouped.values()).sort((a, b) => b.totalRelevanceScore - a.totalRelevanceScore);
+}
+
 // Search documents
 export const searchDocuments: RequestHandler = async (req, res) => {
   try {
-    const { query, documentIds } = req.body;
+    const { query, documentIds, filters, maxResults, rerank, mmr, mmrLambda, retrievalMode }: DocumentSearchRequest = req.body;
 
     if (!query) {
       return res.status(400).json({
@@ -64,29 +128,63 @@ export const searchDocuments: RequestHandler = async (req, res) => {
       });
     }
 
+    if (rerank && !RERANK_METHODS.includes(rerank)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown rerank method: ${rerank}`
+      });
+    }
+
+    if (retrievalMode && !RETRIEVAL_MODES.includes(retrievalMode)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown retrieval mode: ${retrievalMode}`
+      });
+    }
+
+    let searchFilters: DocumentSearchFilters;
+    try {
+      searchFilters = parseSearchFilters(filters, documentIds);
+    } catch (filterError) {
+      return res.status(400).json({
+        success: false,
+        error: filterError.message
+      });
+    }
+
+    let parsedQuery: ParsedQuery;
+    try {
+      parsedQuery = parseSearchQuery(query);
+    } catch (syntaxError) {
+      if (!(syntaxError instanceof QuerySyntaxError)) throw syntaxError;
+      return res.status(400).json({
+        success: false,
+        error: syntaxError.message,
+        position: syntaxError.position
+      });
+    }
+
     console.log(`Searching documents for: "${query}"`);
 
-    const searchResults = await DocumentProcessor.searchDocuments(query, documentIds);
+    const searchResults = await semanticSearchService.hybridSearch(query, {
+      maxResults: maxResults || 20,
+      filters: searchFilters,
+      rerank,
+      mmr,
+      mmrLambda,
+      retrievalMode,
+      booleanSyntax: true
+    });
 
     // Format results for frontend
-    const formattedResults = searchResults.map(result => ({
-      documentId: result.documentId,
-      documentName: result.documentName,
-      totalRelevanceScore: result.totalRelevanceScore,
-      chunks: result.chunks.map(chunk => ({
-        id: chunk.id,
-        content: chunk.content.substring(0, 500) + '...', // Limit content length
-        pageNum: chunk.pageNum,
-        wordCount: chunk.wordCount,
-        relevanceScore: chunk.relevanceScore,
-        matches: chunk.matches
-      }))
-    }));
+    const formattedResults = groupResultsByDocument(parsedQuery.structured ? parsedQuery.text : query, searchResults);
+    const suggestion = await semanticSearchService.suggestQuery(query);
 
     res.json({
       success: true,
       results: formattedResults,
-      totalResults: formattedResults.length
+      totalResults: formattedResults.length,
+      ...(suggestion && { suggestion })
     });
 
   } catch (error) {
@@ -98,6 +196,53 @@ export const searchDocuments: RequestHandler = async (req, res) => {
   }
 };
 
+// "More like this": documents and chunks similar to a document, or to one chunk with ?chunkId=
+export const getRelatedContent: RequestHandler = async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const chunkId = typeof req.query.chunkId === "string" ? req.query.chunkId : undefined;
+    const maxDocuments = req.query.maxDocuments !== undefined ? Number(req.query.maxDocuments) : undefined;
+    const maxChunks = req.query.maxChunks !== undefined ? Number(req.query.maxChunks) : undefined;
+
+    if ([maxDocuments, maxChunks].some(value => value !== undefined && (!Number.isInteger(value) || value < 1))) {
+      return res.status(400).json({
+        success: false,
+        error: "maxDocuments and maxChunks must be positive integers"
+      } as RelatedContentResponse);
+    }
+
+    const related = await semanticSearchService.findRelated(documentId, chunkId, { maxDocuments, maxChunks });
+
+    if (!related) {
+      return res.status(404).json({
+        success: false,
+        error: chunkId ? "Chunk not found or not indexed" : "Document not found or not indexed"
+      } as RelatedContentResponse);
+    }
+
+    res.json({
+      success: true,
+      documentId,
+      chunkId,
+      documents: related.documents,
+      chunks: related.chunks.map(result => ({
+        documentId: result.documentId,
+        documentName: result.metadata.documentName,
+        chunkId: result.chunkId,
+        content: result.content.length > 500 ? result.content.substring(0, 500) + "..." : result.content,
+        similarity: result.similarity
+      }))
+    } as RelatedContentResponse);
+
+  } catch (error) {
+    console.error("Related content error:", error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to find related content"
+    } as RelatedContentResponse);
+  }
+};
+
 // Get document statistics
 export const getDocumentStats: RequestHandler = async (req, res) => {
   try {
@@ -2,9 +2,14 @@ import { RequestHandler } from "express";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { addDocument, getAllDocuments, updateDocumentContent } from "../database";
-import { DocumentProcessor, ProcessedDocument } from "../services/documentProcessor";
+import { addDocument, deleteDocument, getAllDocuments, updateDocumentContent } from "../database";
+import { DocumentProcessor, INDEXING_OPTIONS, ProcessedDocument } from "../services/documentProcessor";
 import { semanticSearchService } from "../services/semanticSearch";
+import { duplicateDetector, sha256 } from "../services/duplicateDetector";
+import { isValidOcrLanguage } from "../services/ocrPipeline";
+import { DuplicateAction, DuplicateMatch } from "../../shared/api";
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ["ask", "skip", "replace", "keep"];
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -28,10 +33,9 @@ const upload = multer({
     files: 5 // Max 5 files at once
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['.pdf', '.docx', '.doc', '.txt'];
     const fileExtension = path.extname(file.originalname).toLowerCase();
     
-    if (allowedTypes.includes(fileExtension)) {
+    if (DocumentProcessor.SUPPORTED_FORMATS.includes(fileExtension)) {
       cb(null, true);
     } else {
       cb(new Error(`Unsupported file type: ${fileExtension}`));
@@ -51,10 +55,33 @@ interface FileUploadResponse {
     error?: string;
     metadata?: any;
     tags?: string[];
+    documentId?: string;
+    duplicateOf?: DuplicateMatch; // existing document this upload duplicates
+    duplicateAction?: "pending" | "skipped" | "replaced" | "kept";
   }>;
   error?: string;
 }
 
+// Result for an upload that duplicates an existing document and was not stored
+function duplicateResult(name: string, duplicate: DuplicateMatch, action: "ask" | "skip"): NonNullable<FileUploadResponse["processedFiles"]>[number] {
+  const description = duplicate.type === "near"
+    ? `${Math.round(duplicate.similarity * 100)}% similar to "${duplicate.documentName}"`
+    : `identical to "${duplicate.documentName}"`;
+
+  console.log(`Upload ${name} is ${description}`);
+  return {
+    name,
+    content: "",
+    summary: "",
+    success: action === "skip",
+    error: action === "ask"
+      ? `Duplicate upload: ${description}. Upload again with duplicateAction skip, replace or keep.`
+      : undefined,
+    duplicateOf: duplicate,
+    duplicateAction: action === "ask" ? "pending" : "skipped"
+  };
+}
+
 export const handleFileUpload: RequestHandler = async (req, res) => {
   try {
     upload.array('files', 5)(req, res, async (err) => {
@@ -73,36 +100,58 @@ export const handleFileUpload: RequestHandler = async (req, res) => {
       }
 
       const files = req.files as Express.Multer.File[];
+      const duplicateAction: DuplicateAction = req.body.duplicateAction || "ask";
+      const ocrLanguage: string | undefined = req.body.ocrLanguage || undefined;
+
+      if (!DUPLICATE_ACTIONS.includes(duplicateAction)) {
+        files.forEach(file => fs.existsSync(file.path) && fs.unlinkSync(file.path));
+        return res.status(400).json({
+          success: false,
+          error: `Invalid duplicateAction "${duplicateAction}". Use one of: ${DUPLICATE_ACTIONS.join(", ")}`
+        } as FileUploadResponse);
+      }
+
+      if (ocrLanguage && !isValidOcrLanguage(ocrLanguage)) {
+        files.forEach(file => fs.existsSync(file.path) && fs.unlinkSync(file.path));
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ocrLanguage "${ocrLanguage}". Use Tesseract language codes such as "eng" or "eng+deu"`
+        } as FileUploadResponse);
+      }
+
       const uploadedFiles: string[] = [];
-      const processedFiles: Array<{
-        name: string;
-        content: string;
-        summary: string;
-        success: boolean;
-        error?: string;
-        metadata?: any;
-        tags?: string[];
-      }> = [];
+      const processedFiles: FileUploadResponse["processedFiles"] = [];
 
       console.log(`Processing ${files.length} uploaded files`);
 
       for (const file of files) {
         try {
           console.log(`Processing file: ${file.originalname}`);
-          
+
+          // An identical file is recognized before paying for extraction
+          const fileHash = sha256(fs.readFileSync(file.path));
+          let duplicate = await duplicateDetector.findDuplicate({ fileHash }, req.body.userId);
+          if (duplicate && (duplicateAction === "ask" || duplicateAction === "skip")) {
+            processedFiles.push(duplicateResult(file.originalname, duplicate, duplicateAction));
+            continue;
+          }
+
           // Process document with enhanced extraction
           const processedDocument = await DocumentProcessor.processDocument(
             file.path,
             file.originalname,
-            {
-              enableOCR: true, // Enable OCR for PDFs
-              chunkSize: 1000, // 1000 words per chunk
-              overlapSize: 100, // 100 words overlap
-              maxTokens: 4000 // 4000 tokens max per chunk
-            }
+            { ...INDEXING_OPTIONS, ocrLanguage }
           );
 
+          const fingerprint = duplicateDetector.fingerprint(processedDocument.content, fileHash);
+          duplicate = duplicate ?? await duplicateDetector.findDuplicate(fingerprint, req.body.userId);
+          if (duplicate && (duplicateAction === "ask" || duplicateAction === "skip")) {
+            processedFiles.push(duplicateResult(file.originalname, duplicate, duplicateAction));
+            continue;
+          }
+
           // Store in database
+          const uploadDate = new Date();
           const documentId = await addDocument({
             name: processedDocument.name,
             originalName: file.originalname,
@@ -111,23 +160,45 @@ export const handleFileUpload: RequestHandler = async (req, res) => {
             content: processedDocument.content,
             summary: processedDocument.summary,
             tags: processedDocument.tags,
-            metadata: processedDocument.metadata,
+            metadata: { ...processedDocument.metadata, fingerprint },
             chunks: processedDocument.chunks,
             processed: true,
-            uploadDate: new Date(),
+            uploadDate,
             userId: req.body.userId,
             sessionId: req.body.sessionId
           });
 
-          // Index for semantic search
+          // Index for semantic search under the database ID so it can be rehydrated after restarts
           try {
-            await semanticSearchService.indexDocument(processedDocument);
+            await semanticSearchService.indexDocument({
+              ...processedDocument,
+              id: String(documentId),
+              sessionId: req.body.sessionId,
+              userId: req.body.userId,
+              uploadDate
+            });
             console.log(`Document ${file.originalname} indexed for semantic search`);
           } catch (searchError) {
             console.warn(`Failed to index document for semantic search: ${searchError}`);
-            // Continue processing even if indexing fails
+            // A replacement that cannot be searched would lose the original's place in the index,
+            // so the original is kept instead; otherwise continue processing even if indexing fails
+            if (duplicate && duplicateAction === "replace") {
+              await semanticSearchService.removeDocument(String(documentId));
+              await deleteDocument(documentId);
+              throw new Error(`Indexing failed, so ${duplicate.documentName} was kept: ${searchError instanceof Error ? searchError.message : 'Unknown error'}`);
+            }
+          }
+
+          // The original is only removed once its replacement is stored and indexed
+          if (duplicate && duplicateAction === "replace") {
+            await deleteDocument(Number(duplicate.documentId));
+            await semanticSearchService.removeDocument(duplicate.documentId);
+            duplicateDetector.remove(duplicate.documentId);
+            console.log(`Replaced document ${duplicate.documentName} with ${file.originalname}`);
           }
 
+          duplicateDetector.register(String(documentId), processedDocument.name, fingerprint, req.body.userId);
+
           uploadedFiles.push(file.filename);
           processedFiles.push({
             name: file.originalname,
@@ -135,7 +206,12 @@ export const handleFileUpload: RequestHandler = async (req, res) => {
             summary: processedDocument.summary,
             success: true,
             metadata: processedDocument.metadata,
-            tags: processedDocument.tags
+            tags: processedDocument.tags,
+            documentId: String(documentId),
+            ...(duplicate && {
+              duplicateOf: duplicate,
+              duplicateAction: duplicateAction === "replace" ? "replaced" as const : "kept" as const
+            })
           });
 
           console.log(`Successfully processed ${file.originalname}: ${processedDocument.metadata.totalWords} words, ${processedDocument.chunks.length} chunks`);
@@ -272,12 +348,7 @@ export const handleProcessDocuments: RequestHandler = async (req, res) => {
           const processedDocument = await DocumentProcessor.processDocument(
             filePath,
             doc.originalName,
-            {
-              enableOCR: true,
-              chunkSize: 1000,
-              overlapSize: 100,
-              maxTokens: 4000
-            }
+            INDEXING_OPTIONS
           );
 
           // Update database
@@ -292,7 +363,13 @@ export const handleProcessDocuments: RequestHandler = async (req, res) => {
 
           // Index for semantic search
           try {
-            await semanticSearchService.indexDocument(processedDocument);
+            await semanticSearchService.indexDocument({
+              ...processedDocument,
+              id: String(doc.id),
+              sessionId: doc.sessionId,
+              userId: doc.userId,
+              uploadDate: doc.uploadDate
+            });
           } catch (searchError) {
             console.warn(`Failed to index document for semantic search: ${searchError}`);
           }
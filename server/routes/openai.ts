@@ -2,6 +2,10 @@ import { Router } from 'express';
 import OpenAI from 'openai';
 import { getAllDocuments, getDocumentContent } from "../database";
 import { OpenAIRequest, OpenAIResponse } from "../../shared/api";
+import { queryRewriter } from "../services/queryRewriter";
+import { semanticSearchService, SearchResult } from "../services/semanticSearch";
+import { aiQueryHandler } from "../services/aiQueryHandler";
+import { fitMessagesToContext, getTokenizer } from "../services/tokenizer";
 
 const router = Router();
 
@@ -67,22 +71,9 @@ async function performWebSearch(query: string): Promise<any[]> {
   }
 }
 
-// Rough token estimation (1 token ≈ 4 characters for English text)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
-// Truncate text to fit within token limit
-function truncateToTokenLimit(text: string, maxTokens: number): string {
-  const estimatedTokens = estimateTokens(text);
-  if (estimatedTokens <= maxTokens) {
-    return text;
-  }
-  
-  // Calculate how many characters we can keep
-  const maxChars = maxTokens * 4;
-  return text.substring(0, maxChars) + '...';
-}
+const CHAT_MODEL = 'gpt-4-turbo-preview';
+const MAX_RESPONSE_TOKENS = 4000;
+const MAX_PASSAGES = 8;
 
 router.post('/chat', async (req, res) => {
   const startTime = Date.now();
@@ -104,10 +95,13 @@ router.post('/chat', async (req, res) => {
     console.log(`OpenAI request: "${prompt}"`);
     console.log(`Search web: ${searchWeb}`);
 
+    // Follow-ups like "what about the second one?" need the conversation to be searchable
+    const { query: searchQuery } = await queryRewriter.condense(prompt, chatHistory);
+
     // Get document context with improved search
     let databaseContext = '';
-    let relevantDocuments = await getDocumentContent(prompt);
-    console.log(`Search query: "${prompt}"`);
+    let relevantDocuments = await getDocumentContent(searchQuery);
+    console.log(`Search query: "${searchQuery}"`);
     console.log(`Found ${relevantDocuments.length} relevant documents`);
 
     // If no documents found with exact search, try a broader search
@@ -124,7 +118,7 @@ router.post('/chat', async (req, res) => {
         }));
         
         // Filter documents that contain any part of the query
-        const queryWords = prompt.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+        const queryWords = searchQuery.toLowerCase().split(/\s+/).filter(word => word.length > 2);
         relevantDocuments = fullDocs.filter(doc => 
           doc && queryWords.some(word => 
             doc.content.toLowerCase().includes(word) ||
@@ -146,7 +140,7 @@ router.post('/chat', async (req, res) => {
       console.log(`Document names: ${relevantDocuments.map(doc => doc.originalName).join(', ')}`);
       
       // Smart content extraction - find relevant sections around the search terms
-      const searchTerms = prompt.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+      const searchTerms = searchQuery.toLowerCase().split(/\s+/).filter(term => term.length > 2);
       const relevantSections = relevantDocuments.map(doc => {
         const content = doc.content;
         const sections: string[] = [];
@@ -174,7 +168,7 @@ router.post('/chat', async (req, res) => {
       
       databaseContext = `\n\nPRIMARY SOURCE - RELEVANT DOCUMENT SECTIONS:\n${relevantSections.join('\n')}`;
     } else {
-      console.log("No relevant documents found for query:", prompt);
+      console.log("No relevant documents found for query:", searchQuery);
       // Final fallback: include first 2000 characters of each document
       const allDocuments = await getAllDocuments();
       const processedDocs = allDocuments.filter(doc => doc.processed);
@@ -193,12 +187,25 @@ router.post('/chat', async (req, res) => {
       }
     }
 
+    // Indexed chunks carry the pages they come from, so answers can cite "p. 14"
+    const passages = await semanticSearchService
+      .hybridSearch(searchQuery, { maxResults: MAX_PASSAGES })
+      .catch((error): SearchResult[] => {
+        console.error('Semantic search for chat passages failed:', error);
+        return [];
+      });
+    const passagesContext = passages.length > 0
+      ? `\n\nRELEVANT PASSAGES (cite the document and page shown in each header):\n${passages.map(result =>
+          `=== ${aiQueryHandler.formatCitation(result)} ===\n${result.content}`
+        ).join('\n\n')}`
+      : '';
+
     // Get web search results if requested AND no relevant documents found
     let webContext = '';
     let webResults: any[] = [];
     if (searchWeb && relevantDocuments.length === 0) {
       console.log('No relevant documents found, performing web search as fallback...');
-      webResults = await performWebSearch(prompt);
+      webResults = await performWebSearch(searchQuery);
       if (webResults.length > 0) {
         webContext = `\n\nWEB SEARCH RESULTS (FALLBACK - NO DOCUMENTS FOUND):\n${webResults.map(result => 
           `- ${result.title}: ${result.snippet}`
@@ -206,7 +213,7 @@ router.post('/chat', async (req, res) => {
       }
     } else if (searchWeb && relevantDocuments.length > 0) {
       console.log('Relevant documents found, web search will be used as supplementary information only');
-      webResults = await performWebSearch(prompt);
+      webResults = await performWebSearch(searchQuery);
       if (webResults.length > 0) {
         webContext = `\n\nSUPPLEMENTARY WEB SEARCH RESULTS:\n${webResults.map(result => 
           `- ${result.title}: ${result.snippet}`
@@ -298,6 +305,7 @@ ${relevantDocuments.length > 0 ? `You have access to ${relevantDocuments.length}
 - **Extract specific quotes, data points, and insights from documents**
 - **Cross-reference information across multiple documents when available**
 - **Provide page numbers, sections, or document names when referencing content**
+- **When a passage header gives a page, cite it, e.g. "According to Annual Report.pdf, p. 14..."**
 
 ### 🔍 **Smart Response Strategy:**
 - **Analyze the query** - is it asking about specific uploaded content or general knowledge?
@@ -346,6 +354,10 @@ IMPORTANT: If document content is provided below, you MUST use it and acknowledg
     if (databaseContext) {
       userMessage += databaseContext;
     }
+
+    if (passagesContext) {
+      userMessage += passagesContext;
+    }
     
     if (webContext) {
       userMessage += webContext;
@@ -354,7 +366,7 @@ IMPORTANT: If document content is provided below, you MUST use it and acknowledg
 
 
     // Prepare messages for OpenAI
-    const messages: any[] = [
+    let messages: any[] = [
       { role: 'system', content: systemMessage }
     ];
 
@@ -366,32 +378,26 @@ IMPORTANT: If document content is provided below, you MUST use it and acknowledg
     // Add current user message
     messages.push({ role: 'user', content: userMessage });
 
-    // Check token limits and truncate if necessary
-    const maxTokens = 120000; // Leave some buffer for response
-    const totalContent = messages.map(m => m.content).join('');
-    const estimatedTokens = estimateTokens(totalContent);
+    // Check token limits and truncate if necessary, leaving room for the response
+    const promptTokens = getTokenizer(CHAT_MODEL).countMessages(messages);
     
     console.log('Sending request to OpenAI...');
     console.log('System message length:', systemMessage.length);
     console.log('User message length:', userMessage.length);
-    console.log('Estimated total tokens:', estimatedTokens);
+    console.log('Prompt tokens:', promptTokens);
     
-    if (estimatedTokens > maxTokens) {
-      console.log('Token limit exceeded, truncating content...');
-      // Truncate the user message to fit within limits
-      const availableTokens = maxTokens - estimateTokens(systemMessage);
-      const maxUserMessageChars = availableTokens * 4;
-      userMessage = userMessage.substring(0, maxUserMessageChars) + '...';
-      messages[messages.length - 1] = { role: 'user', content: userMessage };
-      console.log('Truncated user message length:', userMessage.length);
+    messages = fitMessagesToContext(messages, CHAT_MODEL, MAX_RESPONSE_TOKENS);
+    const fittedTokens = getTokenizer(CHAT_MODEL).countMessages(messages);
+    if (fittedTokens < promptTokens) {
+      console.log(`Token limit exceeded, trimmed history and content to ${fittedTokens} tokens`);
     }
 
     // Call OpenAI API
     const openaiClient = getOpenAIClient();
     const completion = await openaiClient.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
+      model: CHAT_MODEL,
       messages: messages,
-      max_tokens: 4000,
+      max_tokens: MAX_RESPONSE_TOKENS,
       temperature: 0.7,
     });
 
@@ -408,7 +414,10 @@ IMPORTANT: If document content is provided below, you MUST use it and acknowledg
       response,
       sources: relevantDocuments.map(doc => doc.originalName),
       webResults,
-      responseTime
+      responseTime,
+      metadata: {
+        rewrittenQuery: searchQuery
+      }
     };
 
     console.log(`Response generated in ${responseTime}ms`);
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { semanticSearchService } from "./semanticSearch";
+import { queryRewriter } from "./queryRewriter";
+import type { AIQueryHandler } from "./aiQueryHandler";
+
+let handler: AIQueryHandler;
+
+beforeAll(async () => {
+  // The handler module creates its singleton on import, which needs an API key
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  const { AIQueryHandler } = await import("./aiQueryHandler");
+  handler = new AIQueryHandler();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("AIQueryHandler", () => {
+  it("should suggest corrections for the message the user typed, not the rewritten query", async () => {
+    vi.spyOn(queryRewriter, "condense").mockResolvedValue({
+      query: "proof of stake consensus energy use",
+      originalQuery: "what about its enrgy use?",
+      rewritten: true,
+      method: "llm",
+    });
+    const suggestQuery = vi.spyOn(semanticSearchService, "suggestQuery").mockResolvedValue({
+      query: "what about its energy use?",
+      corrections: [{ original: "enrgy", suggestion: "energy", start: 14, end: 19 }],
+    });
+    vi.spyOn(handler as any, "gatherDocumentContext").mockResolvedValue([]);
+    vi.spyOn(handler as any, "generateAIResponse").mockResolvedValue({ response: "", documentsUsed: [], confidence: 0, sources: [] });
+
+    const result = await handler.processQuery({ message: "what about its enrgy use?", useSemanticSearch: false });
+
+    expect(suggestQuery).toHaveBeenCalledWith("what about its enrgy use?");
+    expect(result.metadata).toMatchObject({
+      rewrittenQuery: "proof of stake consensus energy use",
+      suggestedQuery: "what about its energy use?",
+    });
+  });
+});
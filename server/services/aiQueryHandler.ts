@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
-import { semanticSearchService, SearchResult } from './semanticSearch';
+import { semanticSearchService, SearchOptions, SearchResult } from './semanticSearch';
+import { queryRewriter } from './queryRewriter';
+import { fitMessagesToContext } from './tokenizer';
 import { getAllDocuments, getDocumentsByTags, searchDocuments } from '../database';
+import { DocumentSearchFilters, RerankMethod, RetrievalMode } from '../../shared/api';
 
 export interface AIQueryRequest {
   message: string;
@@ -19,6 +22,11 @@ export interface AIQueryRequest {
   maxResults?: number;
   sessionId?: string;
   userId?: string;
+  filters?: DocumentSearchFilters;
+  rerank?: RerankMethod; // reorder retrieved chunks before they go into the prompt
+  mmr?: boolean;         // diversify retrieved chunks (default true, so near-duplicate neighbours don't fill the prompt)
+  mmrLambda?: number;
+  retrievalMode?: RetrievalMode; // multi-query or HyDE retrieval for questions worded unlike the documents
 }
 
 export interface AIQueryResponse {
@@ -33,6 +41,9 @@ export interface AIQueryResponse {
     semanticSearchUsed: boolean;
     webSearchUsed: boolean;
     processingTime: number;
+    rewrittenQuery: string; // standalone query used for retrieval, condensed from the message and history
+    retrievalMode: RetrievalMode;
+    suggestedQuery?: string; // spelling-corrected query when words in it do not occur in any document
   };
 }
 
@@ -40,6 +51,8 @@ export class AIQueryHandler {
   private openai: OpenAI;
   private readonly DEFAULT_MAX_RESULTS = 5;
   private readonly DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+  private readonly CHAT_MODEL = 'gpt-4';
+  private readonly MAX_RESPONSE_TOKENS = 2000;
 
   constructor() {
     if (!process.env.OPENAI_API_KEY) {
@@ -62,14 +75,25 @@ export class AIQueryHandler {
       // Step 1: Gather relevant document content
       const documentContext = await this.gatherDocumentContext(request);
       
-      // Step 2: Perform semantic search if enabled
+      // Step 2: Condense follow-up questions into a standalone search query
+      const rewrite = await queryRewriter.condense(request.message, request.history);
+
+      // Step 3: Perform semantic search if enabled
       let semanticResults: SearchResult[] = [];
       if (request.useSemanticSearch !== false) {
-        semanticResults = await this.performSemanticSearch(request.message, documentContext);
+        semanticResults = await this.performSemanticSearch(rewrite.query, documentContext, {
+          filters: request.filters,
+          rerank: request.rerank,
+          mmr: request.mmr ?? true,
+          mmrLambda: request.mmrLambda,
+          retrievalMode: request.retrievalMode
+        });
       }
       
-      // Step 3: Generate AI response
+      // Step 4: Generate AI response
       const aiResponse = await this.generateAIResponse(request, documentContext, semanticResults);
+      // Corrections are offered for what the user typed, not for the rewritten query
+      const suggestion = await semanticSearchService.suggestQuery(request.message);
       
       const responseTime = Date.now() - startTime;
       
@@ -84,7 +108,10 @@ export class AIQueryHandler {
           totalDocuments: documentContext.length,
           semanticSearchUsed: semanticResults.length > 0,
           webSearchUsed: request.searchWeb || false,
-          processingTime: responseTime
+          processingTime: responseTime,
+          rewrittenQuery: rewrite.query,
+          retrievalMode: request.retrievalMode || 'standard',
+          ...(suggestion && { suggestedQuery: suggestion.query })
         }
       };
       
@@ -162,14 +189,16 @@ export class AIQueryHandler {
    */
   private async performSemanticSearch(
     query: string, 
-    documentContext: Array<{ name: string; content: string; summary: string; tags: string[] }>
+    documentContext: Array<{ name: string; content: string; summary: string; tags: string[] }>,
+    options: Pick<SearchOptions, 'filters' | 'rerank' | 'mmr' | 'mmrLambda' | 'retrievalMode'> = {}
   ): Promise<SearchResult[]> {
     try {
       console.log('Performing semantic search');
       
-      const searchResults = await semanticSearchService.search(query, {
+      const searchResults = await semanticSearchService.hybridSearch(query, {
         maxResults: this.DEFAULT_MAX_RESULTS,
-        similarityThreshold: this.DEFAULT_CONFIDENCE_THRESHOLD
+        similarityThreshold: this.DEFAULT_CONFIDENCE_THRESHOLD,
+        ...options
       });
 
       console.log(`Semantic search found ${searchResults.length} relevant results`);
@@ -222,10 +251,11 @@ export class AIQueryHandler {
 
       console.log('Sending request to OpenAI');
       
+      // Drop older history, then trim document context, until the prompt fits the model's context window
       const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages,
-        max_tokens: 2000,
+        model: this.CHAT_MODEL,
+        messages: fitMessagesToContext(messages, this.CHAT_MODEL, this.MAX_RESPONSE_TOKENS),
+        max_tokens: this.MAX_RESPONSE_TOKENS,
         temperature: 0.7,
         top_p: 0.9,
         frequency_penalty: 0.1,
@@ -292,7 +322,7 @@ IMPORTANT INSTRUCTIONS:
     if (semanticResults.length > 0) {
       systemMessage += `\nSEMANTIC SEARCH RESULTS (most relevant content):\n`;
       semanticResults.forEach((result, index) => {
-        systemMessage += `\nResult ${index + 1} (${result.metadata.documentName}):\n`;
+        systemMessage += `\nResult ${index + 1} (${this.formatCitation(result)}):\n`;
         systemMessage += `Relevance: ${(result.similarity * 100).toFixed(1)}%\n`;
         systemMessage += `Content: ${result.content.substring(0, 300)}...\n`;
       });
@@ -300,7 +330,7 @@ IMPORTANT INSTRUCTIONS:
 
     systemMessage += `\nRESPONSE GUIDELINES:
 - Always reference specific documents when possible
-- Use the format "According to [Document Name]..." when citing sources
+- Use the format "According to [Document Name]..." when citing sources, adding the page when a result gives one, e.g. "According to [Document Name], p. 14..."
 - If multiple documents contain relevant information, mention all of them
 - If no documents contain relevant information, clearly state this
 - Provide actionable insights and analysis when appropriate`;
@@ -396,14 +426,26 @@ IMPORTANT INSTRUCTIONS:
 
     // Add semantic search sources
     semanticResults.forEach(result => {
-      if (!sources.includes(result.metadata.documentName)) {
-        sources.push(result.metadata.documentName);
+      const citation = this.formatCitation(result);
+      if (!sources.includes(citation)) {
+        sources.push(citation);
       }
     });
 
     return sources;
   }
 
+  /**
+   * Document name with the pages a result comes from, e.g. "Annual Report.pdf, p. 14" or "pp. 14-15"
+   */
+  formatCitation(result: SearchResult): string {
+    const { documentName, page, endPage } = result.metadata;
+    if (page === undefined) return documentName;
+    return endPage !== undefined && endPage > page
+      ? `${documentName}, pp. ${page}-${endPage}`
+      : `${documentName}, p. ${page}`;
+  }
+
   /**
    * Search documents by tags
    */
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { maximalMarginalRelevance, suppressOverlappingSpans } from "./diversity";
+
+interface Item {
+  id: string;
+  relevance: number;
+  topic: string;
+}
+
+const items: Item[] = [
+  { id: "a1", relevance: 0.95, topic: "a" },
+  { id: "a2", relevance: 0.94, topic: "a" },
+  { id: "a3", relevance: 0.93, topic: "a" },
+  { id: "b1", relevance: 0.8, topic: "b" },
+  { id: "c1", relevance: 0.7, topic: "c" },
+];
+
+const mmr = (lambda: number, limit = 3) =>
+  maximalMarginalRelevance(items, {
+    lambda,
+    limit,
+    relevance: (item) => item.relevance,
+    similarity: (x, y) => (x.topic === y.topic ? 1 : 0),
+  }).map((item) => item.id);
+
+describe("maximalMarginalRelevance", () => {
+  it("should keep relevance order when lambda is 1", () => {
+    expect(mmr(1)).toEqual(["a1", "a2", "a3"]);
+  });
+
+  it("should promote novel items over near-duplicates", () => {
+    expect(mmr(0.7)).toEqual(["a1", "b1", "c1"]);
+  });
+
+  it("should return fewer items than the limit when candidates run out", () => {
+    expect(mmr(0.5, 10)).toHaveLength(5);
+  });
+});
+
+describe("suppressOverlappingSpans", () => {
+  it("should drop lower-ranked chunks overlapping a kept chunk of the same document", () => {
+    const results = [
+      { id: "1:0", documentId: "1", start: 0, end: 1000 },
+      { id: "1:1", documentId: "1", start: 900, end: 1900 },
+      { id: "2:0", documentId: "2", start: 0, end: 1000 },
+      { id: "1:2", documentId: "1", start: 1800, end: 2800 },
+    ];
+
+    const kept = suppressOverlappingSpans(results, (r) => r);
+    expect(kept.map((r) => r.id)).toEqual(["1:0", "2:0", "1:2"]);
+  });
+
+  it("should keep results without a known span", () => {
+    const kept = suppressOverlappingSpans(["x", "y"], () => null);
+    expect(kept).toEqual(["x", "y"]);
+  });
+});
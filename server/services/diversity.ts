@@ -0,0 +1,74 @@
+// Result diversification for retrieved context
+// Neighbouring chunks overlap (see DocumentProcessor.generateChunks), so the best matches for a query are
+// often near-copies of each other. These helpers trade a little relevance for coverage.
+
+export interface ChunkSpan {
+  documentId: string;
+  start: number; // word offset of the chunk within its document
+  end: number;
+}
+
+export interface MmrOptions<T> {
+  lambda: number; // 1 = pure relevance, 0 = pure novelty
+  limit: number;
+  relevance: (item: T) => number;
+  similarity: (a: T, b: T) => number;
+}
+
+/**
+ * Maximal marginal relevance (Carbonell & Goldstein, 1998): repeatedly pick the candidate with the best
+ * trade-off between its relevance and its similarity to what has already been picked
+ */
+export function maximalMarginalRelevance<T>(candidates: T[], options: MmrOptions<T>): T[] {
+  const lambda = Math.max(0, Math.min(1, options.lambda));
+  const remaining = [...candidates];
+  const selected: T[] = [];
+  // Highest similarity of each remaining candidate to any selected item
+  const maxSimilarity = new Map<T, number>();
+
+  while (selected.length < options.limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = selected.length > 0 ? maxSimilarity.get(candidate) ?? 0 : 0;
+      const score = lambda * options.relevance(candidate) - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked);
+
+    remaining.forEach(candidate => {
+      const similarity = options.similarity(candidate, picked);
+      maxSimilarity.set(candidate, Math.max(maxSimilarity.get(candidate) ?? -Infinity, similarity));
+    });
+  }
+
+  return selected;
+}
+
+/**
+ * Drop results whose chunk span overlaps a higher-ranked result from the same document.
+ * Results without a known span are always kept.
+ */
+export function suppressOverlappingSpans<T>(results: T[], getSpan: (result: T) => ChunkSpan | null): T[] {
+  const keptSpans = new Map<string, ChunkSpan[]>();
+
+  return results.filter(result => {
+    const span = getSpan(result);
+    if (!span) return true;
+
+    const spans = keptSpans.get(span.documentId) || [];
+    if (spans.some(kept => span.start < kept.end && kept.start < span.end)) {
+      return false;
+    }
+
+    spans.push(span);
+    keptSpans.set(span.documentId, spans);
+    return true;
+  });
+}
@@ -1,6 +1,9 @@
 import fs from 'fs';
 import path from 'path';
 import { spawnSync } from 'child_process';
+import { blocksToText } from './textStructure';
+import { DocumentProcessor } from './documentProcessor';
+import { spreadsheetToBlocks } from './spreadsheetParser';
 
 export interface ExtractedDocument {
   content: string;
@@ -54,6 +57,15 @@ export class DocumentExtractor {
           return await this.extractDocxContent(filePath);
         case '.doc':
           return await this.extractDocContent(filePath);
+        case '.md':
+        case '.markdown':
+        case '.html':
+        case '.htm':
+        case '.rtf':
+        case '.csv':
+        case '.tsv':
+        case '.xlsx':
+          return await this.extractMarkupContent(filePath, fileExtension);
         default:
           return {
             content: '',
@@ -237,6 +249,50 @@ export class DocumentExtractor {
     }
   }
 
+  /**
+   * Extract content from Markdown, HTML, RTF and spreadsheet files, keeping headings, lists and tables
+   * as text rather than markup
+   */
+  private static async extractMarkupContent(filePath: string, fileExtension: string): Promise<ExtractedDocument> {
+    const format = fileExtension.slice(1).toUpperCase();
+
+    try {
+      const blocks = DocumentProcessor.MARKUP_FORMATS[fileExtension]
+        ? DocumentProcessor.MARKUP_FORMATS[fileExtension](fs.readFileSync(filePath, 'utf-8'))
+        : await spreadsheetToBlocks(fs.readFileSync(filePath), fileExtension);
+      const { content } = blocksToText(blocks);
+
+      // Validate extracted content
+      if (!content || content.trim().length === 0) {
+        return {
+          content: '',
+          summary: '',
+          success: false,
+          error: `${format} extraction returned empty content`
+        };
+      }
+
+      console.log(`Successfully extracted ${content.length} characters from ${format}`);
+
+      return {
+        content,
+        summary: this.generateSummary(content, 300),
+        success: true,
+        metadata: {
+          wordCount: content.split(/\s+/).length,
+          language: this.detectLanguage(content)
+        }
+      };
+    } catch (error) {
+      return {
+        content: '',
+        summary: '',
+        success: false,
+        error: `${format} extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Extract content from DOC files (legacy Word format)
    */
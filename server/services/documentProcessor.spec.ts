@@ -0,0 +1,238 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, afterAll } from "vitest";
+import { Document, HeadingLevel, Packer, Paragraph, Table, TableCell, TableRow } from "docx";
+import { DocumentProcessor } from "./documentProcessor";
+import { OcrPipeline } from "./ocrPipeline";
+
+// Minimal PDF with one line of Helvetica text per page
+function writePdf(filePath: string, pages: string[]): void {
+  const fontId = 3 + pages.length * 2;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${4 + i * 2} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  fs.writeFileSync(filePath, pdf);
+}
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "document-processor-"));
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("DocumentProcessor page tracking", () => {
+  it("should take the page count from the PDF and record the pages each chunk spans", async () => {
+    const pdfPath = path.join(tempDir, "report.pdf");
+    writePdf(pdfPath, [
+      "alpha beta gamma delta epsilon",
+      "zeta eta theta iota kappa",
+      "",
+      "lambda mu nu xi omicron",
+    ]);
+
+    const document = await DocumentProcessor.processDocument(pdfPath, "report.pdf", { chunkSize: 4, overlapSize: 1, chunkingStrategy: "words" });
+
+    expect(document.metadata.totalPages).toBe(4);
+    expect(document.metadata.pageOffsets).toHaveLength(4);
+    expect(document.content).toBe("alpha beta gamma delta epsilon\n\nzeta eta theta iota kappa\n\nlambda mu nu xi omicron");
+    expect(document.chunks.map((c) => [c.content, c.metadata.page, c.metadata.endPage])).toEqual([
+      ["alpha beta gamma delta", 1, 1],
+      ["delta epsilon\n\nzeta eta", 1, 2],
+      ["eta theta iota kappa", 2, 2],
+      ["kappa\n\nlambda mu nu", 2, 4],
+      ["nu xi omicron", 4, 4],
+    ]);
+  });
+
+  it("should keep page ranges when content is re-chunked", () => {
+    const content = "one two three four five six";
+    const { chunks } = DocumentProcessor.rechunk(content, { chunkSize: 3, overlapSize: 1, chunkingStrategy: "words" }, {
+      pageOffsets: [0, content.indexOf("four")],
+    });
+
+    expect(chunks.map((c) => [c.metadata.page, c.metadata.endPage])).toEqual([
+      [1, 1],
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it("should OCR scanned pages and keep their boundaries and confidence", async () => {
+    const pdfPath = path.join(tempDir, "scan.pdf");
+    writePdf(pdfPath, ["", "", ""]);
+    const scanned = ["Invoice number 4411 issued in March.", "Payment is due within thirty days.", "Thank you for your business."];
+    const ocrPipeline = new OcrPipeline({
+      renderer: { name: "test-renderer", renderPage: async (_file, page) => Buffer.from(String(page)) },
+      engine: {
+        name: "test-ocr",
+        recognize: async (image) => ({ text: scanned[Number(image.toString()) - 1], confidence: 80 + Number(image.toString()) }),
+      },
+    });
+
+    const document = await DocumentProcessor.processDocument(pdfPath, "scan.pdf", { enableOCR: true, ocrPipeline, chunkSize: 6, overlapSize: 1 });
+
+    expect(document.content).toBe(scanned.join("\n\n"));
+    expect(document.metadata.ocr).toEqual({ engine: "test-ocr", renderer: "test-renderer", language: "eng", confidence: 81.9, pageConfidence: [81, 82, 83] });
+    expect(document.chunks.map((c) => [c.metadata.page, c.metadata.endPage])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it("should OCR uploaded images and chunk the recognized text", async () => {
+    const imagePath = path.join(tempDir, "upload-photo.jpg");
+    fs.writeFileSync(imagePath, "image bytes");
+    const languages: Array<string | undefined> = [];
+    const ocrPipeline = new OcrPipeline({
+      renderer: { name: "test-renderer", renderPage: async () => Buffer.alloc(0) },
+      engine: {
+        name: "test-ocr",
+        recognize: async (_image, options) => {
+          languages.push(options?.language);
+          return { text: "Quarterly targets\n\nShip the mobile app. Hire two engineers.", confidence: 88.44 };
+        },
+        detectOrientation: async () => ({ rotation: 180, confidence: 12 }),
+      },
+    });
+
+    const document = await DocumentProcessor.processDocument(imagePath, "whiteboard.JPG", { ocrPipeline, ocrLanguage: "eng+spa", chunkSize: 5, overlapSize: 1 });
+
+    expect(languages).toEqual(["eng+spa"]);
+    expect(document.content).toBe("Quarterly targets\n\nShip the mobile app. Hire two engineers.");
+    expect(document.metadata).toMatchObject({ fileType: ".jpg", totalPages: 1, hasImages: true });
+    expect(document.metadata.ocr).toEqual({ engine: "test-ocr", language: "eng+spa", rotation: 180, confidence: 88.4 });
+    expect(document.chunks.map((c) => c.metadata.section)).toEqual(["Quarterly targets", "Quarterly targets"]);
+  });
+
+  it("should leave pages unset for documents without page boundaries", () => {
+    const { chunks } = DocumentProcessor.rechunk("plain text without pages", { chunkSize: 2, overlapSize: 1 });
+    expect(chunks.every((c) => c.metadata.page === undefined)).toBe(true);
+  });
+});
+
+describe("DocumentProcessor structure", () => {
+  it("should take headings and lists from DOCX styles and label chunks with their section", async () => {
+    const docxPath = path.join(tempDir, "handbook.docx");
+    const doc = new Document({
+      sections: [
+        {
+          children: [
+            new Paragraph({ text: "Employee Handbook", heading: HeadingLevel.HEADING_1 }),
+            new Paragraph("Welcome to the company. Read this before your first day."),
+            new Paragraph({ text: "Leave", heading: HeadingLevel.HEADING_2 }),
+            new Paragraph("Annual leave is twenty days."),
+            new Paragraph({ text: "Request leave in the portal", bullet: { level: 0 } }),
+            new Paragraph({ text: "Tell your manager", bullet: { level: 0 } }),
+            new Table({
+              rows: [
+                new TableRow({ children: [new TableCell({ children: [new Paragraph("Type")] }), new TableCell({ children: [new Paragraph("Days")] })] }),
+              ],
+            }),
+          ],
+        },
+      ],
+    });
+    fs.writeFileSync(docxPath, await Packer.toBuffer(doc));
+
+    const document = await DocumentProcessor.processDocument(docxPath, "handbook.docx", { chunkSize: 16, overlapSize: 2 });
+
+    expect(document.content).toBe(
+      "Employee Handbook\n\nWelcome to the company. Read this before your first day.\n\nLeave\n\nAnnual leave is twenty days.\n\n- Request leave in the portal\n- Tell your manager\n\nType | Days",
+    );
+    expect(document.metadata.hasTables).toBe(true);
+    expect(document.metadata.headings).toEqual([
+      { start: 0, end: 17, level: 1 },
+      { start: 77, end: 82, level: 2 },
+    ]);
+    expect(document.chunks.map((c) => [c.metadata.section, c.content])).toEqual([
+      ["Employee Handbook", "Employee Handbook\n\nWelcome to the company. Read this before your first day."],
+      ["Employee Handbook > Leave", "Leave\n\nAnnual leave is twenty days.\n\n- Request leave in the portal\n- Tell your manager"],
+      ["Employee Handbook > Leave", "Type | Days"],
+    ]);
+  });
+
+  it("should extract web pages without their boilerplate and keep headings and links", async () => {
+    const htmlPath = path.join(tempDir, "faq.html");
+    fs.writeFileSync(
+      htmlPath,
+      "<html><head><script>track()</script></head><body><nav><a href=\"/\">Home</a> <a href=\"/blog\">Blog</a></nav>" +
+        "<h1>FAQ</h1><h2>Billing</h2><p>Invoices are sent <a href=\"https://example.com/billing\">monthly</a>.</p>" +
+        "<footer>Copyright 2024</footer></body></html>",
+    );
+
+    const document = await DocumentProcessor.processDocument(htmlPath, "faq.html", { chunkSize: 20, overlapSize: 2 });
+
+    expect(document.content).toBe("FAQ\n\nBilling\n\nInvoices are sent monthly.");
+    expect(document.metadata.headings).toEqual([
+      { start: 0, end: 3, level: 1 },
+      { start: 5, end: 12, level: 2 },
+    ]);
+    expect(document.metadata.links).toEqual([{ start: 32, end: 39, url: "https://example.com/billing" }]);
+    expect(document.metadata.hasTables).toBe(false);
+    expect(document.chunks.map((c) => c.metadata.section)).toEqual(["FAQ > Billing"]);
+  });
+
+  it("should extract CSV rows as a table and repeat the header in each chunk of rows", async () => {
+    const csvPath = path.join(tempDir, "samples.csv");
+    fs.writeFileSync(csvPath, "Sample,Site,pH\nS1,\"North, upper\",7.2\nS2,South,6.9\nS3,East,7.4\n");
+
+    const document = await DocumentProcessor.processDocument(csvPath, "samples.csv", { chunkSize: 16, overlapSize: 2 });
+
+    expect(document.content).toBe("Sample | Site | pH\nS1 | North, upper | 7.2\nS2 | South | 6.9\nS3 | East | 7.4");
+    expect(document.metadata.hasTables).toBe(true);
+    expect(document.metadata.tables).toEqual([{ start: 0, end: 75, headerEnd: 18 }]);
+    expect(document.chunks.map((c) => [c.content, c.metadata.wordCount])).toEqual([
+      ["Sample | Site | pH\nS1 | North, upper | 7.2\nS2 | South | 6.9", 16],
+      ["Sample | Site | pH\nS3 | East | 7.4", 10],
+    ]);
+  });
+
+  it("should keep line breaks and split plain text along detected headings and sentences", async () => {
+    const txtPath = path.join(tempDir, "notes.txt");
+    fs.writeFileSync(txtPath, "Setup  Notes\r\n\r\n\r\nInstall the tools.   Then run the tests.\r\n\r\n1.2 Troubleshooting\r\nRestart the server. Check the logs.");
+
+    const document = await DocumentProcessor.processDocument(txtPath, "notes.txt", { chunkSize: 6, overlapSize: 3 });
+
+    expect(document.content).toBe("Setup Notes\n\nInstall the tools. Then run the tests.\n\n1.2 Troubleshooting\nRestart the server. Check the logs.");
+    expect(document.chunks.map((c) => [c.metadata.section, c.content, c.metadata.startIndex, c.metadata.endIndex])).toEqual([
+      ["Setup Notes", "Setup Notes\n\nInstall the tools.", 0, 5],
+      ["Setup Notes", "Then run the tests.", 5, 9],
+      ["Setup Notes > 1.2 Troubleshooting", "1.2 Troubleshooting\nRestart the server.", 9, 14],
+      ["Setup Notes > 1.2 Troubleshooting", "Restart the server. Check the logs.", 11, 17],
+    ]);
+  });
+
+  it("should still chunk by word windows when that strategy is selected", () => {
+    const { chunks, chunkingVersion } = DocumentProcessor.rechunk("Intro\n\none two three. four five", {
+      chunkSize: 3,
+      overlapSize: 1,
+      chunkingStrategy: "words",
+    });
+
+    expect(chunkingVersion).toBe("v3:words,size=3,overlap=1,tokens=4000,encoding=cl100k_base");
+    expect(chunks.map((c) => c.content)).toEqual(["Intro\n\none two", "two three. four", "four five"]);
+    expect(chunks.every((c) => c.metadata.section === undefined)).toBe(true);
+  });
+});
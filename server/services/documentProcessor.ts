@@ -5,17 +5,26 @@
 import fs from 'fs';
 import path from 'path';
 import { spawnSync } from 'child_process';
-import { createWorker } from 'tesseract.js';
+import { chunkByStructure } from './structureChunker';
+import { HeadingSpan, LinkSpan, StructuredText, TableSpan, TextBlock, blocksToText, htmlToBlocks } from './textStructure';
+import { markdownToBlocks } from './markdownParser';
+import { rtfToBlocks } from './rtfParser';
+import { spreadsheetToBlocks } from './spreadsheetParser';
+import { Tokenizer, getTokenizer } from './tokenizer';
+import { OcrPipeline, ocrPipeline } from './ocrPipeline';
 
 export interface DocumentChunk {
   id: string;
   content: string;
   metadata: {
-    page?: number;
+    page?: number;        // first page of the chunk, for documents with page boundaries (PDF)
+    endPage?: number;     // last page the chunk runs onto
     section?: string;
     wordCount: number;
-    startIndex: number;
+    startIndex: number;   // word offsets of the chunk in the document
     endIndex: number;
+    startOffset?: number; // character offsets of the chunk in the document content
+    endOffset?: number;
   };
 }
 
@@ -33,23 +42,86 @@ export interface ProcessedDocument {
     hasTables: boolean;
     processingTime: number;
     extractedAt: Date;
+    pageOffsets?: number[];   // character offset in content where each page starts (PDF)
+    headings?: HeadingSpan[]; // headings known from the file format (DOCX styles, markup), kept for re-chunking
+    links?: LinkSpan[];       // hyperlinks in DOCX, Markdown, HTML and RTF documents, by their text in content
+    tables?: TableSpan[];     // tables from the file's structure (spreadsheets, DOCX, markup), one row per line
+    ocr?: OcrMetadata;        // set when the text came from OCR
+    chunkingVersion?: string; // chunker and options the chunks were produced with
+    pipelineVersion?: string; // chunking version plus embedding model, stamped when the document is indexed
   };
   summary: string;
   tags: string[];
 }
 
+export interface OcrMetadata {
+  engine: string;
+  renderer?: string;
+  language?: string;         // Tesseract language codes the text was recognized with
+  rotation?: number;         // degrees clockwise an image was turned to read it upright
+  confidence: number;        // 0-100, weighted by the words recognized on each page
+  pageConfidence?: number[]; // per page, in page order
+  failedPages?: number[];    // pages that could not be rendered or recognized
+}
+
 export interface ProcessingOptions {
   enableOCR?: boolean;
+  ocrPipeline?: OcrPipeline; // renderer and engine for scanned PDFs and images (default: pdftoppm and Tesseract)
+  ocrLanguage?: string; // Tesseract language codes, e.g. "deu" or "eng+fra" (default: OCR_LANGUAGE)
   chunkSize?: number; // words per chunk
   overlapSize?: number; // words overlap between chunks
   maxTokens?: number; // max tokens per chunk (default: 4000 for GPT-4)
+  tokenizerModel?: string; // model whose tokenizer maxTokens is counted with (default: text-embedding-3-small)
+  chunkingStrategy?: ChunkingStrategy; // default: structure
 }
 
+// 'structure' keeps headings, paragraphs, list items and sentences intact and labels chunks with their
+// section; 'words' slides a fixed window of words over the text
+export type ChunkingStrategy = 'structure' | 'words';
+
+// Layout recorded at extraction time that chunking can use
+export interface DocumentLayout {
+  pageOffsets?: number[];
+  headings?: HeadingSpan[];
+  tables?: TableSpan[];
+}
+
+// Bump when a change to cleanContent or generateChunks splits the same text differently,
+// so documents chunked by the old code are picked up by the background reindex
+export const CHUNKER_VERSION = 3;
+
+// Options uploaded documents are chunked with, overridable through the environment
+export const INDEXING_OPTIONS: ProcessingOptions = {
+  enableOCR: true,
+  chunkSize: Number(process.env.CHUNK_SIZE) || 1000,
+  overlapSize: Number(process.env.CHUNK_OVERLAP) || 100,
+  maxTokens: Number(process.env.CHUNK_MAX_TOKENS) || 4000,
+  tokenizerModel: process.env.EMBEDDING_MODEL,
+  chunkingStrategy: process.env.CHUNKING_STRATEGY === 'words' ? 'words' : 'structure'
+};
+
 export class DocumentProcessor {
   private static readonly DEFAULT_CHUNK_SIZE = 1000; // words
   private static readonly DEFAULT_OVERLAP_SIZE = 100; // words
   private static readonly DEFAULT_MAX_TOKENS = 4000; // tokens
-  private static readonly SUPPORTED_FORMATS = ['.pdf', '.docx', '.doc', '.txt'];
+  private static readonly DEFAULT_STRATEGY: ChunkingStrategy = 'structure';
+  private static readonly DEFAULT_TOKENIZER_MODEL = 'text-embedding-3-small';
+  private static readonly IMAGE_FORMATS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.bmp', '.webp'];
+  private static readonly SPREADSHEET_FORMATS = ['.csv', '.tsv', '.xlsx'];
+  // Markup formats and the parsers that read their structure
+  static readonly MARKUP_FORMATS: Record<string, (source: string) => TextBlock[]> = {
+    '.md': markdownToBlocks,
+    '.markdown': markdownToBlocks,
+    '.html': htmlToBlocks,
+    '.htm': htmlToBlocks,
+    '.rtf': rtfToBlocks
+  };
+  static readonly SUPPORTED_FORMATS = [
+    '.pdf', '.docx', '.doc', '.txt',
+    ...Object.keys(DocumentProcessor.MARKUP_FORMATS),
+    ...DocumentProcessor.SPREADSHEET_FORMATS,
+    ...DocumentProcessor.IMAGE_FORMATS
+  ];
 
   /**
    * Process a document file and extract content with chunking
@@ -69,20 +141,44 @@ export class DocumentProcessor {
     try {
       // Extract raw content based on file type
       let rawContent = '';
+      let pages: string[] | undefined;
+      let totalPages: number | undefined;
+      let headings: HeadingSpan[] | undefined;
+      let links: LinkSpan[] | undefined;
+      let tables: TableSpan[] | undefined;
+      let structured = false; // content built from the file's own structure, already clean
+      let ocr: OcrMetadata | undefined;
       let hasImages = false;
-      let hasTables = false;
 
       switch (fileExtension) {
         case '.pdf':
-          const pdfResult = await this.extractPdfContent(filePath, options.enableOCR);
+          const pdfResult = await this.extractPdfContent(filePath, options.enableOCR, options.ocrPipeline, options.ocrLanguage);
           rawContent = pdfResult.content;
+          pages = pdfResult.pages;
+          ocr = pdfResult.ocr;
+          totalPages = pdfResult.totalPages;
           hasImages = pdfResult.hasImages;
-          hasTables = pdfResult.hasTables;
           break;
         case '.docx':
-          const docxResult = await this.extractDocxContent(filePath);
-          rawContent = docxResult.content;
-          hasTables = docxResult.hasTables;
+        case '.md':
+        case '.markdown':
+        case '.html':
+        case '.htm':
+        case '.rtf':
+        case '.csv':
+        case '.tsv':
+        case '.xlsx':
+          const structuredResult = fileExtension === '.docx'
+            ? await this.extractDocxContent(filePath)
+            : this.SPREADSHEET_FORMATS.includes(fileExtension)
+              ? await this.extractSpreadsheetContent(filePath, fileExtension)
+              : await this.extractMarkupContent(filePath, fileExtension);
+          rawContent = structuredResult.content;
+          // Without headings in the markup, fall back to detecting them from the text
+          headings = structuredResult.headings.length > 0 ? structuredResult.headings : undefined;
+          links = structuredResult.links.length > 0 ? structuredResult.links : undefined;
+          tables = structuredResult.tables.length > 0 ? structuredResult.tables : undefined;
+          structured = true;
           break;
         case '.doc':
           const docResult = await this.extractDocContent(filePath);
@@ -91,6 +187,14 @@ export class DocumentProcessor {
         case '.txt':
           rawContent = await this.extractTextContent(filePath);
           break;
+        default:
+          // Images are only readable through OCR, whether or not enableOCR is set for scanned PDFs
+          const imageResult = await this.extractImageContent(filePath, options.ocrPipeline, options.ocrLanguage);
+          rawContent = imageResult.content;
+          ocr = imageResult.ocr;
+          totalPages = 1;
+          hasImages = true;
+          break;
       }
 
       // Validate extracted content
@@ -98,11 +202,14 @@ export class DocumentProcessor {
         throw new Error('No content could be extracted from the document');
       }
 
-      // Clean and normalize content
-      const cleanedContent = this.cleanContent(rawContent);
+      // Clean and normalize content, keeping track of where each page starts. Structured content is
+      // built from cleaned blocks already, and cleaning it again would move its headings and links.
+      const { content: cleanedContent, pageOffsets } = pages
+        ? this.joinPages(pages)
+        : { content: structured ? rawContent : this.cleanContent(rawContent), pageOffsets: undefined };
 
       // Generate chunks
-      const chunks = this.generateChunks(cleanedContent, options);
+      const chunks = this.generateChunks(cleanedContent, options, { pageOffsets, headings, tables });
 
       // Generate summary
       const summary = this.generateSummary(cleanedContent);
@@ -122,13 +229,19 @@ export class DocumentProcessor {
         chunks,
         metadata: {
           fileType: fileExtension,
-          totalPages: this.estimatePages(cleanedContent),
+          totalPages: totalPages ?? this.estimatePages(cleanedContent),
           totalWords: this.countWords(cleanedContent),
           language,
           hasImages,
-          hasTables,
+          hasTables: !!tables,
           processingTime,
-          extractedAt: new Date()
+          extractedAt: new Date(),
+          ...(pageOffsets && { pageOffsets }),
+          ...(headings && { headings }),
+          ...(links && { links }),
+          ...(tables && { tables }),
+          ...(ocr && { ocr }),
+          chunkingVersion: this.chunkingVersion(options)
         },
         summary,
         tags
@@ -139,13 +252,42 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Identifies the chunker and the options that affect chunk boundaries,
+   * e.g. "v3:structure,size=1000,overlap=100,tokens=4000,encoding=cl100k_base"
+   */
+  static chunkingVersion(options: ProcessingOptions = {}): string {
+    const strategy = options.chunkingStrategy || this.DEFAULT_STRATEGY;
+    const chunkSize = options.chunkSize || this.DEFAULT_CHUNK_SIZE;
+    const overlapSize = options.overlapSize || this.DEFAULT_OVERLAP_SIZE;
+    const maxTokens = options.maxTokens || this.DEFAULT_MAX_TOKENS;
+    const { encoding } = this.tokenizerFor(options);
+    return `v${CHUNKER_VERSION}:${strategy},size=${chunkSize},overlap=${overlapSize},tokens=${maxTokens},encoding=${encoding}`;
+  }
+
+  /**
+   * Re-chunk already extracted content, e.g. after the chunking options changed
+   */
+  static rechunk(
+    content: string,
+    options: ProcessingOptions = {},
+    layout: DocumentLayout = {}
+  ): { chunks: DocumentChunk[]; chunkingVersion: string } {
+    return {
+      chunks: this.generateChunks(content, options, layout),
+      chunkingVersion: this.chunkingVersion(options)
+    };
+  }
+
   /**
    * Extract content from PDF files with OCR support
    */
-  private static async extractPdfContent(filePath: string, enableOCR = false): Promise<{
+  private static async extractPdfContent(filePath: string, enableOCR = false, pipeline = ocrPipeline, language?: string): Promise<{
     content: string;
+    pages?: string[];     // text per page
+    totalPages?: number;
+    ocr?: OcrMetadata;
     hasImages: boolean;
-    hasTables: boolean;
   }> {
     try {
       // Use the existing PDF extractor
@@ -164,21 +306,28 @@ export class DocumentProcessor {
         try {
           const parsed = JSON.parse(result.stdout);
           let content = parsed.text || '';
+          let pages: string[] | undefined = Array.isArray(parsed.pages) && parsed.pages.length > 0 ? parsed.pages : undefined;
+          let ocr: OcrMetadata | undefined;
           
           // Check if OCR is needed (content seems to be image-based)
-          if (enableOCR && this.needsOCR(content)) {
+          if (enableOCR && parsed.numPages > 0 && this.needsOCR(content)) {
             console.log('PDF appears to be image-based, attempting OCR...');
-            const ocrContent = await this.performOCR(filePath);
-            if (ocrContent) {
-              content = ocrContent;
+            const ocrResult = await this.performOCR(filePath, parsed.numPages, pipeline, language);
+            if (ocrResult) {
+              // Keep a page's own text layer when it has more words than OCR found
+              pages = ocrResult.pages.map(page => {
+                const extracted = pages?.[page.page - 1] || '';
+                return this.countWords(extracted) > this.countWords(page.text) ? extracted : page.text;
+              });
+              content = pages.join('\n\n');
+              ocr = ocrResult.metadata;
             }
           }
 
           // Detect features
           const hasImages = this.detectImages(content);
-          const hasTables = this.detectTables(content);
 
-          return { content, hasImages, hasTables };
+          return { content, pages, totalPages: parsed.numPages || undefined, ocr, hasImages };
         } catch (parseError) {
           throw new Error(`Failed to parse PDF extraction result: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
         }
@@ -192,28 +341,43 @@ export class DocumentProcessor {
   }
 
   /**
-   * Extract content from DOCX files
+   * Extract content from DOCX files, keeping headings, paragraphs and lists from the Word styles
    */
-  private static async extractDocxContent(filePath: string): Promise<{
-    content: string;
-    hasTables: boolean;
-  }> {
+  private static async extractDocxContent(filePath: string): Promise<StructuredText> {
     try {
-      // Use mammoth for DOCX extraction
+      // Use mammoth for DOCX extraction; its HTML output maps heading styles to h1-h6
       const mammoth = require('mammoth');
       
-      const result = await mammoth.extractRawText({ path: filePath });
-      const content = result.value || '';
-      
-      // Detect tables in DOCX
-      const hasTables = this.detectTables(content);
-
-      return { content, hasTables };
+      const result = await mammoth.convertToHtml({ path: filePath });
+      return blocksToText(htmlToBlocks(result.value || ''));
     } catch (error) {
       throw new Error(`DOCX extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Extract content from Markdown, HTML and RTF files, keeping headings, links, lists and tables from the markup
+   */
+  private static async extractMarkupContent(filePath: string, fileExtension: string): Promise<StructuredText> {
+    try {
+      const source = await fs.promises.readFile(filePath, 'utf-8');
+      return blocksToText(this.MARKUP_FORMATS[fileExtension](source));
+    } catch (error) {
+      throw new Error(`${fileExtension.slice(1).toUpperCase()} extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Extract content from CSV, TSV and XLSX files, keeping each sheet's rows as a table under the sheet's name
+   */
+  private static async extractSpreadsheetContent(filePath: string, fileExtension: string): Promise<StructuredText> {
+    try {
+      return blocksToText(await spreadsheetToBlocks(await fs.promises.readFile(filePath), fileExtension));
+    } catch (error) {
+      throw new Error(`${fileExtension.slice(1).toUpperCase()} extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Extract content from DOC files (legacy Word format)
    */
@@ -257,6 +421,30 @@ To get full text extraction, please:
     }
   }
 
+  /**
+   * Extract text from an image (photo, screenshot, scanned page) with OCR
+   */
+  private static async extractImageContent(filePath: string, pipeline = ocrPipeline, language?: string): Promise<{
+    content: string;
+    ocr: OcrMetadata;
+  }> {
+    try {
+      const result = await pipeline.recognizeImage(filePath, language);
+      console.log(`Image OCR completed with ${result.confidence}% confidence${result.rotation ? ` after turning it ${result.rotation}°` : ''}`);
+      return {
+        content: result.text,
+        ocr: {
+          engine: result.engine,
+          language: result.language,
+          rotation: result.rotation,
+          confidence: Math.round(result.confidence * 10) / 10
+        }
+      };
+    } catch (error) {
+      throw new Error(`Image OCR failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Check if content needs OCR processing
    */
@@ -270,20 +458,29 @@ To get full text extraction, please:
   }
 
   /**
-   * Perform OCR on PDF using Tesseract.js
+   * Render the PDF's pages to images and recognize them
    */
-  private static async performOCR(filePath: string): Promise<string | null> {
+  private static async performOCR(filePath: string, pageCount: number, pipeline: OcrPipeline, language?: string): Promise<{
+    pages: Array<{ page: number; text: string }>;
+    metadata: OcrMetadata;
+  } | null> {
     try {
-      console.log('Starting OCR processing...');
-      const worker = await createWorker('eng');
-      
-      // Convert PDF to images and perform OCR
-      // This is a simplified implementation - in production you'd want to use a proper PDF to image converter
-      const result = await worker.recognize(filePath);
-      await worker.terminate();
-      
-      console.log('OCR completed successfully');
-      return result.data.text;
+      console.log(`Starting OCR processing of ${pageCount} pages...`);
+      const result = await pipeline.recognizePdf(filePath, pageCount, language);
+      const failedPages = result.pages.filter(page => page.error).map(page => page.page);
+
+      console.log(`OCR completed with ${result.confidence}% confidence`);
+      return {
+        pages: result.pages,
+        metadata: {
+          engine: result.engine,
+          renderer: result.renderer,
+          language: result.language,
+          confidence: result.confidence,
+          pageConfidence: result.pages.map(page => page.confidence),
+          ...(failedPages.length > 0 && { failedPages })
+        }
+      };
     } catch (error) {
       console.error('OCR failed:', error);
       return null;
@@ -291,48 +488,156 @@ To get full text extraction, please:
   }
 
   /**
-   * Clean and normalize content
+   * Clean and normalize content. Line breaks are kept, since the structure chunker reads paragraphs,
+   * list items and headings from them.
    */
   private static cleanContent(content: string): string {
     return content
-      .replace(/\r\n/g, '\n') // Normalize line endings
+      .replace(/\r\n?/g, '\n') // Normalize line endings
+      .replace(/[^\S\n]+/g, ' ') // Normalize whitespace within lines
+      .replace(/ ?\n ?/g, '\n') // Trim lines
       .replace(/\n{3,}/g, '\n\n') // Remove excessive newlines
-      .replace(/\s+/g, ' ') // Normalize whitespace
       .trim();
   }
 
   /**
-   * Generate document chunks for processing
+   * Clean each page and join them as separate paragraphs, recording the offset where each page starts in
+   * the joined content
+   */
+  private static joinPages(pages: string[]): { content: string; pageOffsets: number[] } {
+    const pageOffsets: number[] = [];
+    let content = '';
+
+    pages.forEach(page => {
+      const cleaned = this.cleanContent(page);
+      if (cleaned && content) content += '\n\n';
+      pageOffsets.push(content.length);
+      content += cleaned;
+    });
+
+    return { content, pageOffsets };
+  }
+
+  /**
+   * 1-based page containing a character offset, given the offsets where pages start
+   */
+  private static pageAt(pageOffsets: number[], offset: number): number {
+    let low = 0;
+    let high = pageOffsets.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (pageOffsets[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  /**
+   * Generate document chunks for processing with the configured strategy
+   */
+  private static generateChunks(content: string, options: ProcessingOptions = {}, layout: DocumentLayout = {}): DocumentChunk[] {
+    const chunks = (options.chunkingStrategy || this.DEFAULT_STRATEGY) === 'words'
+      ? this.chunkByWords(content, options)
+      : this.chunkByStructure(content, options, layout.headings, layout.tables);
+
+    return chunks.map(chunk => ({
+      ...chunk,
+      metadata: {
+        ...this.pageRange(layout.pageOffsets, chunk.metadata.startOffset, chunk.metadata.endOffset),
+        ...chunk.metadata
+      }
+    }));
+  }
+
+  /**
+   * Chunk along headings, paragraphs, sentences and table rows, labelling each chunk with its section.
+   * Chunks that continue a table start with its header row.
+   */
+  private static chunkByStructure(content: string, options: ProcessingOptions, headings?: HeadingSpan[], tables?: TableSpan[]): DocumentChunk[] {
+    const wordStarts = Array.from(content.matchAll(/\S+/g), match => match.index);
+
+    const tokenizer = this.tokenizerFor(options);
+
+    return chunkByStructure(content, {
+      chunkSize: options.chunkSize || this.DEFAULT_CHUNK_SIZE,
+      overlapSize: options.overlapSize || this.DEFAULT_OVERLAP_SIZE,
+      maxTokens: options.maxTokens || this.DEFAULT_MAX_TOKENS,
+      countTokens: text => tokenizer.count(text),
+      headings,
+      tables
+    }).map((span, index) => {
+      const startIndex = this.wordIndexAt(wordStarts, span.start);
+      const endIndex = this.wordIndexAt(wordStarts, span.end);
+      const header = span.header ? content.slice(span.header.start, span.header.end) : '';
+      return {
+        id: index.toString(),
+        content: header ? `${header}\n${content.slice(span.start, span.end)}` : content.slice(span.start, span.end),
+        metadata: {
+          ...(span.section && { section: span.section }),
+          wordCount: endIndex - startIndex + this.countWords(header),
+          startIndex,
+          endIndex,
+          startOffset: span.start,
+          endOffset: span.end
+        }
+      };
+    });
+  }
+
+  /**
+   * Index of the first word starting at or after a character offset
+   */
+  private static wordIndexAt(wordStarts: number[], offset: number): number {
+    let low = 0;
+    let high = wordStarts.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (wordStarts[mid] < offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Slide a fixed window of words over the content
    */
-  private static generateChunks(content: string, options: ProcessingOptions = {}): DocumentChunk[] {
+  private static chunkByWords(content: string, options: ProcessingOptions): DocumentChunk[] {
     const chunkSize = options.chunkSize || this.DEFAULT_CHUNK_SIZE;
     const overlapSize = options.overlapSize || this.DEFAULT_OVERLAP_SIZE;
     const maxTokens = options.maxTokens || this.DEFAULT_MAX_TOKENS;
+    const tokenizer = this.tokenizerFor(options);
 
-    const words = content.split(/\s+/);
+    // Chunk content is sliced from the document so character offsets map straight back to it
+    const words = Array.from(content.matchAll(/\S+/g), match => ({
+      start: match.index,
+      end: match.index + match[0].length
+    }));
     const chunks: DocumentChunk[] = [];
     let chunkIndex = 0;
 
     for (let i = 0; i < words.length; i += chunkSize - overlapSize) {
       const chunkWords = words.slice(i, i + chunkSize);
-      const chunkContent = chunkWords.join(' ');
-      
-      // Skip empty chunks
-      if (chunkContent.trim().length === 0) continue;
+      const startOffset = chunkWords[0].start;
+      const endOffset = chunkWords[chunkWords.length - 1].end;
+      const chunkContent = content.slice(startOffset, endOffset);
 
-      // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
-      const estimatedTokens = chunkContent.length / 4;
-      if (estimatedTokens > maxTokens) {
+      if (tokenizer.count(chunkContent) > maxTokens) {
         // Split chunk further if it's too large
-        const subChunks = this.splitLargeChunk(chunkContent, maxTokens);
-        subChunks.forEach((subChunk, subIndex) => {
+        const subChunks = this.splitLargeChunk(chunkContent, maxTokens, tokenizer);
+        subChunks.forEach((span, subIndex) => {
+          const subChunk = chunkContent.slice(span.start, span.end);
+          const wordsBefore = chunkContent.slice(0, span.start).split(/\s+/).filter(Boolean).length;
+          const wordCount = subChunk.split(/\s+/).length;
+
           chunks.push({
             id: `${chunkIndex}_${subIndex}`,
             content: subChunk,
             metadata: {
-              wordCount: subChunk.split(/\s+/).length,
-              startIndex: i + (subIndex * (maxTokens * 4)),
-              endIndex: i + (subIndex * (maxTokens * 4)) + subChunk.length
+              wordCount,
+              startIndex: i + wordsBefore,
+              endIndex: i + wordsBefore + wordCount,
+              startOffset: startOffset + span.start,
+              endOffset: startOffset + span.end
             }
           });
         });
@@ -343,7 +648,9 @@ To get full text extraction, please:
           metadata: {
             wordCount: chunkWords.length,
             startIndex: i,
-            endIndex: i + chunkWords.length
+            endIndex: i + chunkWords.length,
+            startOffset,
+            endOffset
           }
         });
       }
@@ -355,30 +662,58 @@ To get full text extraction, please:
   }
 
   /**
-   * Split large chunks into smaller ones
+   * Tokenizer chunk token limits are counted with
    */
-  private static splitLargeChunk(content: string, maxTokens: number): string[] {
-    const sentences = content.split(/[.!?]+/);
-    const chunks: string[] = [];
-    let currentChunk = '';
+  private static tokenizerFor(options: ProcessingOptions): Tokenizer {
+    return getTokenizer(options.tokenizerModel || this.DEFAULT_TOKENIZER_MODEL);
+  }
 
-    for (const sentence of sentences) {
-      const testChunk = currentChunk + sentence + '. ';
-      const estimatedTokens = testChunk.length / 4;
+  /**
+   * Pages spanned by the characters from start to end, when the document has page boundaries
+   */
+  private static pageRange(pageOffsets: number[] | undefined, start: number, end: number): { page?: number; endPage?: number } {
+    if (!pageOffsets?.length) return {};
+    return { page: this.pageAt(pageOffsets, start), endPage: this.pageAt(pageOffsets, Math.max(start, end - 1)) };
+  }
 
-      if (estimatedTokens > maxTokens && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = sentence + '. ';
-      } else {
-        currentChunk = testChunk;
+  /**
+   * Split large chunks into smaller ones at sentence boundaries, returning character spans within the chunk
+   */
+  private static splitLargeChunk(content: string, maxTokens: number, tokenizer: Tokenizer): Array<{ start: number; end: number }> {
+    const spans: Array<{ start: number; end: number }> = [];
+    let start = -1;
+    let end = 0;
+    let spanTokens = 0;
+
+    for (const sentence of content.matchAll(/[^.!?]+[.!?]*|[.!?]+/g)) {
+      const sentenceEnd = sentence.index + sentence[0].length;
+      const sentenceTokens = tokenizer.count(sentence[0]);
+
+      if (start >= 0 && spanTokens + sentenceTokens > maxTokens) {
+        spans.push({ start, end });
+        start = -1;
+      }
+      if (start < 0) {
+        start = sentence.index;
+        spanTokens = 0;
       }
+      end = sentenceEnd;
+      spanTokens += sentenceTokens;
     }
 
-    if (currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
+    if (start >= 0) {
+      spans.push({ start, end });
     }
 
-    return chunks;
+    // Trim surrounding whitespace so each span starts and ends on text
+    return spans
+      .map(span => {
+        const text = content.slice(span.start, span.end);
+        const leading = text.length - text.trimStart().length;
+        const trailing = text.length - text.trimEnd().length;
+        return { start: span.start + leading, end: span.end - trailing };
+      })
+      .filter(span => span.end > span.start);
   }
 
   /**
@@ -469,21 +804,6 @@ To get full text extraction, please:
     return imagePatterns.some(pattern => pattern.test(content));
   }
 
-  /**
-   * Detect if content contains tables
-   */
-  private static detectTables(content: string): boolean {
-    const tablePatterns = [
-      /\|\s*\w+\s*\|\s*\w+\s*\|/i, // Markdown tables
-      /\t+\w+/i, // Tab-separated
-      /table\s+\d+/i,
-      /row\s+\d+/i,
-      /column\s+\d+/i
-    ];
-    
-    return tablePatterns.some(pattern => pattern.test(content));
-  }
-
   /**
    * Count words in content
    */
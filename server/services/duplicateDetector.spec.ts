@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { DuplicateDetector, estimateSimilarity, sha256 } from "./duplicateDetector";
+
+const report = Array.from(
+  { length: 40 },
+  (_, i) => `Section ${i} describes how the maintenance team inspects pump station ${i} and records pressure readings.`,
+).join(" ");
+
+const createDetector = () => new DuplicateDetector({ syncFromDatabase: false });
+
+describe("DuplicateDetector", () => {
+  it("should report an identical file before any text is extracted", async () => {
+    const detector = createDetector();
+    const fileHash = sha256("pdf bytes");
+    detector.register("1", "report.pdf", detector.fingerprint(report, fileHash), "user-1");
+
+    expect(await detector.findDuplicate({ fileHash }, "user-1")).toEqual({
+      documentId: "1",
+      documentName: "report.pdf",
+      type: "exact-file",
+      similarity: 1,
+    });
+  });
+
+  it("should treat the same text with different formatting as an exact content match", async () => {
+    const detector = createDetector();
+    detector.register("1", "report.pdf", detector.fingerprint(report, sha256("pdf bytes")));
+
+    const reformatted = detector.fingerprint(report.toUpperCase().replace(/ /g, "\n"), sha256("docx bytes"));
+    const match = await detector.findDuplicate(reformatted);
+
+    expect(match?.type).toBe("exact-content");
+  });
+
+  it("should find lightly edited revisions as near-duplicates", async () => {
+    const detector = createDetector();
+    detector.register("1", "report.pdf", detector.fingerprint(report));
+
+    const revised = report.replace("Section 12 describes", "Section 12 now explains");
+    const match = await detector.findDuplicate(detector.fingerprint(revised));
+
+    expect(match?.type).toBe("near");
+    expect(match?.similarity).toBeGreaterThan(0.9);
+    expect(match?.similarity).toBeLessThan(1);
+  });
+
+  it("should not match unrelated documents or other users' documents", async () => {
+    const detector = createDetector();
+    detector.register("1", "report.pdf", detector.fingerprint(report), "user-1");
+
+    const unrelated = "Quarterly revenue grew on strong subscription sales across all regions.".repeat(20);
+    expect(await detector.findDuplicate(detector.fingerprint(unrelated), "user-1")).toBeNull();
+    expect(await detector.findDuplicate(detector.fingerprint(report), "user-2")).toBeNull();
+  });
+
+  it("should forget removed documents", async () => {
+    const detector = createDetector();
+    detector.register("1", "report.pdf", detector.fingerprint(report));
+    detector.remove("1");
+
+    expect(await detector.findDuplicate(detector.fingerprint(report))).toBeNull();
+  });
+});
+
+describe("estimateSimilarity", () => {
+  it("should be the fraction of agreeing signature positions", () => {
+    expect(estimateSimilarity([1, 2, 3, 4], [1, 2, 0, 4])).toBe(0.75);
+  });
+});
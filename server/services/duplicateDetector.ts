@@ -0,0 +1,208 @@
+// Duplicate document detection
+// Exact duplicates are caught by hashing the uploaded file and its normalized text; near-duplicates
+// (a re-exported PDF, a lightly edited revision) by comparing MinHash signatures of word shingles,
+// which estimate the Jaccard similarity of two documents without keeping their text around.
+
+import crypto from 'crypto';
+import { analyze } from './textAnalyzer';
+import { Document, getAllDocuments } from '../database';
+import { DuplicateMatch } from '../../shared/api';
+
+export interface DocumentFingerprint {
+  fileHash?: string;     // sha256 of the uploaded file bytes
+  contentHash: string;   // sha256 of the normalized extracted text
+  minhash: number[];     // MinHash signature over word shingles
+}
+
+export interface DuplicateDetectorOptions {
+  threshold?: number;    // estimated Jaccard similarity at which documents count as near-duplicates (default 0.9)
+  numHashes?: number;    // MinHash signature length (default 128)
+  shingleSize?: number;  // words per shingle (default 5)
+  syncFromDatabase?: boolean;
+}
+
+interface RegisteredDocument {
+  name: string;
+  userId?: string;
+  fingerprint: DocumentFingerprint;
+}
+
+/**
+ * sha256 of a buffer or string, hex encoded
+ */
+export function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Fraction of signature positions where two MinHash signatures agree, an estimate of Jaccard similarity
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / length;
+}
+
+export class DuplicateDetector {
+  private readonly threshold: number;
+  private readonly numHashes: number;
+  private readonly shingleSize: number;
+  private readonly syncFromDatabase: boolean;
+  private readonly seeds: Uint32Array;
+  private documents: Map<string, RegisteredDocument> = new Map();
+  private initialization: Promise<void> | null = null;
+
+  constructor(options: DuplicateDetectorOptions = {}) {
+    this.threshold = options.threshold ?? (Number(process.env.DUPLICATE_SIMILARITY_THRESHOLD) || 0.9);
+    this.numHashes = options.numHashes ?? 128;
+    this.shingleSize = options.shingleSize ?? 5;
+    this.syncFromDatabase = options.syncFromDatabase ?? true;
+
+    // Fixed seeds so signatures stay comparable across restarts
+    this.seeds = new Uint32Array(this.numHashes);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < this.numHashes; i++) {
+      state = fmix32(state + 0x6d2b79f5);
+      this.seeds[i] = state;
+    }
+  }
+
+  /**
+   * Fingerprint stored documents once so uploads can be compared against them.
+   * Safe to call repeatedly; the work only happens once.
+   */
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.syncFromDatabase ? this.loadDocuments() : Promise.resolve();
+    }
+    return this.initialization;
+  }
+
+  private async loadDocuments(): Promise<void> {
+    let documents: Document[];
+    try {
+      documents = await getAllDocuments();
+    } catch (error) {
+      console.warn(`⚠️  Skipping duplicate detection index load: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    documents.forEach(doc => {
+      if (this.documents.has(String(doc.id)) || !doc.content) return;
+
+      // Documents uploaded before fingerprints were stored are fingerprinted from their text
+      const fingerprint = doc.metadata?.fingerprint?.minhash?.length === this.numHashes
+        ? doc.metadata.fingerprint
+        : this.fingerprint(doc.content);
+      this.documents.set(String(doc.id), { name: doc.name, userId: doc.userId, fingerprint });
+    });
+
+    console.log(`Duplicate detection loaded ${this.documents.size} document fingerprints`);
+  }
+
+  /**
+   * Compute the fingerprint of extracted text, optionally with the hash of the original file
+   */
+  fingerprint(content: string, fileHash?: string): DocumentFingerprint {
+    const terms = analyze(content, { keepStopwords: true }).map(token => token.term);
+
+    return {
+      ...(fileHash && { fileHash }),
+      contentHash: sha256(terms.join(' ')),
+      minhash: this.minhash(terms)
+    };
+  }
+
+  /**
+   * The best matching document for a fingerprint: an exact match if there is one, otherwise the most
+   * similar document at or above the threshold. Only documents of the same user are considered.
+   * A fingerprint with only a file hash is checked for exact file matches.
+   */
+  async findDuplicate(fingerprint: Partial<DocumentFingerprint>, userId?: string): Promise<DuplicateMatch | null> {
+    await this.initialize();
+
+    let best: DuplicateMatch | null = null;
+
+    for (const [documentId, document] of this.documents) {
+      if (document.userId !== userId) continue;
+
+      const stored = document.fingerprint;
+      if (fingerprint.fileHash && stored.fileHash === fingerprint.fileHash) {
+        return { documentId, documentName: document.name, type: 'exact-file', similarity: 1 };
+      }
+      if (fingerprint.contentHash && stored.contentHash === fingerprint.contentHash) {
+        best = { documentId, documentName: document.name, type: 'exact-content', similarity: 1 };
+        continue;
+      }
+
+      if (!fingerprint.minhash || best?.similarity === 1) continue;
+      const similarity = estimateSimilarity(fingerprint.minhash, stored.minhash);
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { documentId, documentName: document.name, type: 'near', similarity };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Remember a stored document so later uploads are compared against it
+   */
+  register(documentId: string, name: string, fingerprint: DocumentFingerprint, userId?: string): void {
+    this.documents.set(documentId, { name, userId, fingerprint });
+  }
+
+  /**
+   * Forget a deleted or replaced document
+   */
+  remove(documentId: string): void {
+    this.documents.delete(documentId);
+  }
+
+  /**
+   * MinHash signature: for each seeded hash function, the minimum hash over all shingles
+   */
+  private minhash(terms: string[]): number[] {
+    const signature = new Uint32Array(this.numHashes).fill(0xffffffff);
+    const shingleCount = Math.max(1, terms.length - this.shingleSize + 1);
+
+    for (let i = 0; i < shingleCount; i++) {
+      const shingle = fnv1a(terms.slice(i, i + this.shingleSize).join(' '));
+      for (let j = 0; j < this.numHashes; j++) {
+        const hash = fmix32(shingle ^ this.seeds[j]);
+        if (hash < signature[j]) signature[j] = hash;
+      }
+    }
+
+    return Array.from(signature);
+  }
+}
+
+// 32-bit FNV-1a string hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, used to derive independent hash functions from seeds
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// Export singleton instance
+export const duplicateDetector = new DuplicateDetector();
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { EmbeddingBatcher } from "./embeddingBatcher";
+import { EmbeddingProvider } from "./embeddingProvider";
+
+class FakeProvider implements EmbeddingProvider {
+  readonly name = "fake";
+  readonly model = "fake-model";
+  readonly dimension = 1;
+  calls: string[][] = [];
+  active = 0;
+  maxActive = 0;
+  failures: Array<Error & { status?: number }> = [];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.active--;
+
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    return texts.map((text) => [text.length]);
+  }
+}
+
+const rateLimitError = () => Object.assign(new Error("Too many requests"), { status: 429 });
+const noSleep = async () => {};
+
+describe("EmbeddingBatcher", () => {
+  it("should split texts into batches and keep input order", async () => {
+    const provider = new FakeProvider();
+    const batcher = new EmbeddingBatcher(provider, { batchSize: 2, sleep: noSleep });
+
+    const vectors = await batcher.embed(["a", "bb", "ccc", "dddd", "eeeee"]);
+    expect(vectors).toEqual([[1], [2], [3], [4], [5]]);
+    expect(provider.calls.map((call) => call.length)).toEqual([2, 2, 1]);
+  });
+
+  it("should never run more requests at once than the concurrency limit", async () => {
+    const provider = new FakeProvider();
+    const batcher = new EmbeddingBatcher(provider, { batchSize: 1, concurrency: 2, sleep: noSleep });
+
+    await batcher.embed(Array.from({ length: 8 }, (_, i) => `text ${i}`));
+    expect(provider.calls).toHaveLength(8);
+    expect(provider.maxActive).toBe(2);
+  });
+
+  it("should embed identical texts once across calls", async () => {
+    const provider = new FakeProvider();
+    const batcher = new EmbeddingBatcher(provider, { sleep: noSleep });
+
+    await batcher.embed(["same chunk", "same chunk", "other"]);
+    await batcher.embed(["same chunk"]);
+
+    expect(provider.calls.flat()).toEqual(["same chunk", "other"]);
+    expect(batcher.getStats().cacheHits).toBe(1);
+  });
+
+  it("should share in-flight requests between concurrent calls", async () => {
+    const provider = new FakeProvider();
+    const batcher = new EmbeddingBatcher(provider, { sleep: noSleep });
+
+    await Promise.all([batcher.embed(["shared"]), batcher.embed(["shared"])]);
+    expect(provider.calls.flat()).toEqual(["shared"]);
+  });
+
+  it("should serve primed vectors without calling the provider", async () => {
+    const provider = new FakeProvider();
+    const batcher = new EmbeddingBatcher(provider, { sleep: noSleep });
+
+    batcher.prime("stored chunk", [42]);
+    expect(await batcher.embed(["stored chunk"])).toEqual([[42]]);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it("should back off and retry on 429 responses", async () => {
+    const provider = new FakeProvider();
+    provider.failures.push(rateLimitError(), rateLimitError());
+    const delays: number[] = [];
+    const batcher = new EmbeddingBatcher(provider, {
+      initialBackoffMs: 100,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    expect(await batcher.embed(["retry me"])).toEqual([[8]]);
+    expect(provider.calls).toHaveLength(3);
+    expect(delays).toHaveLength(2);
+    expect(delays[1]).toBeGreaterThanOrEqual(100);
+  });
+
+  it("should give up after the retry limit and not cache failures", async () => {
+    const provider = new FakeProvider();
+    provider.failures.push(rateLimitError(), rateLimitError());
+    const batcher = new EmbeddingBatcher(provider, { maxRetries: 1, sleep: noSleep });
+
+    await expect(batcher.embed(["fails"])).rejects.toThrow("Too many requests");
+    expect(await batcher.embed(["fails"])).toEqual([[5]]);
+  });
+
+  it("should not retry client errors", async () => {
+    const provider = new FakeProvider();
+    provider.failures.push(Object.assign(new Error("Bad request"), { status: 400 }));
+    const batcher = new EmbeddingBatcher(provider, { sleep: noSleep });
+
+    await expect(batcher.embed(["bad"])).rejects.toThrow("Bad request");
+    expect(provider.calls).toHaveLength(1);
+  });
+});
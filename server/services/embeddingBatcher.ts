@@ -0,0 +1,221 @@
+// Batched, cached embedding generation on top of an EmbeddingProvider
+// Texts are embedded in batches with bounded concurrency and retried with backoff when the API rate limits us.
+// Vectors are cached by content hash, so identical chunks across documents or re-uploads are embedded once.
+
+import { createHash } from 'crypto';
+import { EmbeddingProvider } from './embeddingProvider';
+
+export interface EmbeddingBatcherOptions {
+  batchSize?: number;        // texts per embedding request
+  concurrency?: number;      // embedding requests in flight at once
+  maxRetries?: number;       // retries per batch on rate limits and server errors
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  cacheSize?: number;        // cached vectors kept before the least recently used are evicted
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface EmbeddingBatcherStats {
+  cacheHits: number;
+  cacheMisses: number;
+  requests: number;
+  retries: number;
+  cachedVectors: number;
+}
+
+/**
+ * SHA-256 of the model and text; vectors from different models never share a cache entry
+ */
+export function hashContent(model: string, text: string): string {
+  return createHash('sha256').update(model).update('\0').update(text).digest('hex');
+}
+
+/**
+ * Least-recently-used map of content hash to vector
+ */
+class EmbeddingCache {
+  private entries: Map<string, number[]> = new Map();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(hash: string): number[] | undefined {
+    const vector = this.entries.get(hash);
+    if (vector) {
+      // Re-insert so the entry moves to the most recently used end
+      this.entries.delete(hash);
+      this.entries.set(hash, vector);
+    }
+    return vector;
+  }
+
+  set(hash: string, vector: number[]): void {
+    this.entries.delete(hash);
+    this.entries.set(hash, vector);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class EmbeddingBatcher {
+  private cache: EmbeddingCache;
+  private pending: Map<string, Promise<number[]>> = new Map();
+  private activeRequests = 0;
+  private waiting: Array<() => void> = [];
+  private stats = { cacheHits: 0, cacheMisses: 0, requests: 0, retries: 0 };
+  private readonly batchSize: number;
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(private readonly provider: EmbeddingProvider, options: EmbeddingBatcherOptions = {}) {
+    this.batchSize = options.batchSize ?? parseInt(process.env.EMBEDDING_BATCH_SIZE || '96', 10);
+    this.concurrency = options.concurrency ?? parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.initialBackoffMs = options.initialBackoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000;
+    this.cache = new EmbeddingCache(options.cacheSize ?? 50000);
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Embed texts, returning vectors in input order.
+   * Cached texts cost nothing, duplicate texts are sent once, and texts already being embedded by
+   * a concurrent call share that call's request.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const hashes = texts.map(text => hashContent(this.provider.model, text));
+    const results = new Map<string, Promise<number[]>>();
+    const toEmbed: Array<{ hash: string; text: string }> = [];
+    const seen = new Set<string>();
+
+    hashes.forEach((hash, i) => {
+      if (seen.has(hash)) return;
+      seen.add(hash);
+
+      const cached = this.cache.get(hash);
+      if (cached) {
+        this.stats.cacheHits++;
+        results.set(hash, Promise.resolve(cached));
+        return;
+      }
+
+      const pending = this.pending.get(hash);
+      if (pending) {
+        this.stats.cacheHits++;
+        results.set(hash, pending);
+        return;
+      }
+
+      this.stats.cacheMisses++;
+      toEmbed.push({ hash, text: texts[i] });
+    });
+
+    for (let i = 0; i < toEmbed.length; i += this.batchSize) {
+      const batch = toEmbed.slice(i, i + this.batchSize);
+      const request = this.withConcurrencyLimit(() => this.embedWithRetry(batch.map(item => item.text)));
+
+      batch.forEach((item, index) => {
+        const vector = request.then(vectors => {
+          this.cache.set(item.hash, vectors[index]);
+          return vectors[index];
+        });
+        vector.catch(() => undefined).finally(() => this.pending.delete(item.hash));
+        this.pending.set(item.hash, vector);
+        results.set(item.hash, vector);
+      });
+    }
+
+    return Promise.all(hashes.map(hash => results.get(hash)));
+  }
+
+  /**
+   * Seed the cache with a vector that was already computed, e.g. one loaded from the vector store
+   */
+  prime(text: string, vector: number[]): void {
+    this.cache.set(hashContent(this.provider.model, text), vector);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  getStats(): EmbeddingBatcherStats {
+    return { ...this.stats, cachedVectors: this.cache.size };
+  }
+
+  /**
+   * Run a request once a concurrency slot is free
+   */
+  private async withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+    while (this.activeRequests >= this.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    this.activeRequests++;
+    try {
+      return await task();
+    } finally {
+      this.activeRequests--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Call the provider, backing off exponentially (with jitter) on rate limits and transient server errors
+   */
+  private async embedWithRetry(texts: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.stats.requests++;
+        const vectors = await this.provider.embed(texts);
+        if (vectors.length !== texts.length) {
+          throw new Error(`Expected ${texts.length} embeddings but received ${vectors.length}`);
+        }
+        return vectors;
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        this.stats.retries++;
+        console.warn(`⚠️  Embedding request failed with status ${error.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = error?.status;
+    return status === 429 || (typeof status === 'number' && status >= 500);
+  }
+
+  /**
+   * Honour a Retry-After header when the API sends one, otherwise use exponential backoff
+   */
+  private getRetryDelay(error: any, attempt: number): number {
+    const headers = error?.headers;
+    const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    const retryAfterSeconds = retryAfter ? parseFloat(retryAfter) : NaN;
+
+    if (!isNaN(retryAfterSeconds)) {
+      return Math.min(retryAfterSeconds * 1000, this.maxBackoffMs);
+    }
+
+    const backoff = this.initialBackoffMs * 2 ** attempt;
+    return Math.min(Math.round(backoff / 2 + Math.random() * backoff / 2), this.maxBackoffMs);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  GeminiEmbeddingProvider,
+  HashingEmbeddingProvider,
+  LocalHttpEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+} from "./embeddingProvider";
+
+describe("HashingEmbeddingProvider", () => {
+  it("should embed the same text to the same normalised vector of a fixed dimension", async () => {
+    const provider = new HashingEmbeddingProvider({ dimension: 64 });
+    const [first, second, empty] = await provider.embed(["Change the engine oil", "Change the engine oil", ""]);
+
+    expect(first).toHaveLength(64);
+    expect(second).toEqual(first);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 10);
+    expect(empty).toEqual(new Array(64).fill(0));
+    expect(provider.model).toBe("feature-hashing-v1-64");
+  });
+
+  it("should give texts sharing vocabulary more similar vectors", async () => {
+    const [query, related, unrelated] = await new HashingEmbeddingProvider().embed([
+      "engine oil change",
+      "change the engine oil every year",
+      "cafeteria menu on Monday",
+    ]);
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  const saved = { OPENAI_API_KEY: process.env.OPENAI_API_KEY, GEMINI_API_KEY: process.env.GEMINI_API_KEY };
+
+  beforeEach(() => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  afterEach(() => {
+    Object.entries(saved).forEach(([name, value]) => {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    });
+  });
+
+  it("should use OpenAI when a key is present and the hashing embedder otherwise", () => {
+    expect(createEmbeddingProvider({})).toBeInstanceOf(HashingEmbeddingProvider);
+
+    process.env.OPENAI_API_KEY = "sk-placeholder";
+    expect(createEmbeddingProvider({})).toBeInstanceOf(HashingEmbeddingProvider);
+
+    process.env.OPENAI_API_KEY = "sk-test";
+    const provider = createEmbeddingProvider({});
+    expect(provider).toBeInstanceOf(OpenAIEmbeddingProvider);
+    expect([provider.model, provider.dimension]).toEqual(["text-embedding-3-small", 1536]);
+  });
+
+  it("should fall back to the hashing embedder when the selected API has no key", () => {
+    expect(createEmbeddingProvider({ provider: "openai", dimension: 32 })).toMatchObject({ name: "hashing", dimension: 32 });
+    expect(createEmbeddingProvider({ provider: "gemini" })).toBeInstanceOf(HashingEmbeddingProvider);
+
+    process.env.GEMINI_API_KEY = "gemini-test";
+    expect(createEmbeddingProvider({ provider: "gemini" })).toBeInstanceOf(GeminiEmbeddingProvider);
+  });
+
+  it("should require an endpoint and model for local providers and reject unknown ones", () => {
+    expect(() => createEmbeddingProvider({ provider: "local", model: "nomic-embed-text" })).toThrow("EMBEDDING_BASE_URL");
+    expect(createEmbeddingProvider({ provider: "local", model: "nomic-embed-text", baseUrl: "http://localhost:11434/v1" })).toBeInstanceOf(
+      LocalHttpEmbeddingProvider,
+    );
+    expect(() => createEmbeddingProvider({ provider: "cohere" as never })).toThrow("Unknown embedding provider: cohere");
+  });
+});
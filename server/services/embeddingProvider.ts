@@ -0,0 +1,243 @@
+// Embedding providers for semantic search
+// Selected with EMBEDDING_PROVIDER; the deterministic hashing embedder works offline and in tests
+
+import OpenAI from 'openai';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: 'openai' | 'gemini' | 'local' | 'hashing';
+  model?: string;
+  dimension?: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Most embedding APIs reject very long inputs; chunks are well under this in practice
+const MAX_INPUT_CHARS = 8000;
+
+function truncateInput(text: string): string {
+  return text.length > MAX_INPUT_CHARS ? text.substring(0, MAX_INPUT_CHARS) : text;
+}
+
+/**
+ * OpenAI embeddings API (text-embedding-3-small by default)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  dimension: number;
+  protected client: OpenAI;
+
+  private static readonly MODEL_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536
+  };
+
+  constructor(config: { apiKey: string; model?: string; dimension?: number; baseUrl?: string }) {
+    this.model = config.model || 'text-embedding-3-small';
+    this.dimension = config.dimension || OpenAIEmbeddingProvider.MODEL_DIMENSIONS[this.model] || 0;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      // Retries and rate-limit backoff are handled by EmbeddingBatcher
+      maxRetries: 0,
+      ...(config.baseUrl ? { baseURL: config.baseUrl } : {})
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts.map(truncateInput),
+    });
+
+    const vectors = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    // Servers that do not advertise a dimension up front report it with the first response
+    if (!this.dimension && vectors.length > 0) {
+      this.dimension = vectors[0].length;
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Any server exposing an OpenAI-compatible /v1/embeddings endpoint (Ollama, LM Studio, vLLM, TEI)
+ */
+export class LocalHttpEmbeddingProvider extends OpenAIEmbeddingProvider {
+  readonly name: string = 'local';
+
+  constructor(config: { baseUrl: string; model: string; dimension?: number; apiKey?: string }) {
+    super({
+      apiKey: config.apiKey || 'not-needed',
+      model: config.model,
+      dimension: config.dimension,
+      baseUrl: config.baseUrl
+    });
+  }
+}
+
+/**
+ * Google Gemini embeddings via the batchEmbedContents REST endpoint
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly dimension: number;
+  private apiKey: string;
+
+  constructor(config: { apiKey: string; model?: string; dimension?: number }) {
+    this.apiKey = config.apiKey;
+    this.model = config.model || 'text-embedding-004';
+    this.dimension = config.dimension || 768;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: texts.map(text => ({
+          model: `models/${this.model}`,
+          content: { parts: [{ text: truncateInput(text) }] }
+        }))
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const error: Error & { status?: number } = new Error(`Gemini embedding request failed (status ${response.status}): ${errorText}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    const data = await response.json();
+    return (data.embeddings || []).map((embedding: { values: number[] }) => embedding.values);
+  }
+}
+
+/**
+ * Deterministic offline embedder using feature hashing of unigrams and bigrams.
+ * Texts sharing vocabulary get similar vectors, which keeps search meaningful without an API key.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(config: { dimension?: number } = {}) {
+    this.dimension = config.dimension || 512;
+    this.model = `feature-hashing-v1-${this.dimension}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(this.dimension).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features: string[] = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    const counts = new Map<string, number>();
+    features.forEach(feature => counts.set(feature, (counts.get(feature) || 0) + 1));
+
+    for (const [feature, count] of counts) {
+      const hash = HashingEmbeddingProvider.fnv1a(feature);
+      const bucket = hash % this.dimension;
+      // A second hash bit decides the sign so collisions tend to cancel out
+      const sign = (HashingEmbeddingProvider.fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      // Bigrams carry less weight than single terms
+      const weight = feature.includes(' ') ? 0.5 : 1;
+      vector[bucket] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private static fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Read embedding configuration from the environment
+ */
+export function getEmbeddingConfig(): EmbeddingProviderConfig {
+  return {
+    provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderConfig['provider'],
+    model: process.env.EMBEDDING_MODEL,
+    dimension: process.env.EMBEDDING_DIMENSION ? parseInt(process.env.EMBEDDING_DIMENSION, 10) : undefined,
+    baseUrl: process.env.EMBEDDING_BASE_URL,
+    apiKey: process.env.EMBEDDING_API_KEY
+  };
+}
+
+/**
+ * Create the configured embedding provider.
+ * Without explicit configuration OpenAI is used when a key is present, otherwise the hashing embedder.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = getEmbeddingConfig()): EmbeddingProvider {
+  const openaiKey = config.apiKey || process.env.OPENAI_API_KEY;
+  const hasOpenAIKey = !!openaiKey && openaiKey !== 'sk-placeholder';
+  const provider = config.provider || (hasOpenAIKey ? 'openai' : 'hashing');
+
+  switch (provider) {
+    case 'openai':
+      if (!hasOpenAIKey) {
+        console.warn('⚠️  OpenAI API key not set. Falling back to the local hashing embedder.');
+        return new HashingEmbeddingProvider({ dimension: config.dimension });
+      }
+      return new OpenAIEmbeddingProvider({ apiKey: openaiKey, model: config.model, dimension: config.dimension });
+    case 'gemini': {
+      const geminiKey = config.apiKey || process.env.GEMINI_API_KEY;
+      if (!geminiKey) {
+        console.warn('⚠️  Gemini API key not set. Falling back to the local hashing embedder.');
+        return new HashingEmbeddingProvider({ dimension: config.dimension });
+      }
+      return new GeminiEmbeddingProvider({ apiKey: geminiKey, model: config.model, dimension: config.dimension });
+    }
+    case 'local':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('EMBEDDING_BASE_URL and EMBEDDING_MODEL are required for the local embedding provider');
+      }
+      return new LocalHttpEmbeddingProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        dimension: config.dimension,
+        apiKey: config.apiKey
+      });
+    case 'hashing':
+      return new HashingEmbeddingProvider({ dimension: config.dimension });
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { editDistance, suggestCorrection } from "./fuzzy";
+import { KeywordIndex } from "./keywordIndex";
+
+describe("editDistance", () => {
+  it("should count adjacent transpositions as one edit", () => {
+    expect(editDistance("netwrok", "network")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("same", "same")).toBe(0);
+  });
+
+  it("should stop once the distance exceeds the maximum", () => {
+    expect(editDistance("consensus", "gradient", 2)).toBe(3);
+    expect(editDistance("a", "abcdef", 1)).toBe(2);
+  });
+});
+
+describe("suggestCorrection", () => {
+  const index = new KeywordIndex();
+  index.add("a", "Blockchain consensus uses proof of stake.");
+  index.add("b", "Neural networks are trained with gradient descent.");
+
+  it("should correct unknown words and leave known ones alone", () => {
+    const suggestion = suggestCorrection("neural netwroks gradient", index);
+    expect(suggestion?.query).toBe("neural networks gradient");
+    expect(suggestion?.corrections).toEqual([{ original: "netwroks", suggestion: "networks", start: 7, end: 15 }]);
+  });
+
+  it("should keep operators, fields, phrases and capitalization", () => {
+    const suggestion = suggestCorrection('"Blokchain consensus" AND -gradiant tag:ml', index);
+    expect(suggestion?.query).toBe('"Blockchain consensus" AND -gradient tag:ml');
+  });
+
+  it("should return null when nothing needs correcting or the query does not parse", () => {
+    expect(suggestCorrection("proof of stake", index)).toBeNull();
+    expect(suggestCorrection("quantum", index)).toBeNull();
+    expect(suggestCorrection('"unterminated', index)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+// Fuzzy term matching and "did you mean" suggestions
+// Words are compared with the optimal string alignment distance (Levenshtein plus adjacent
+// transpositions, so "netwrok" is one edit from "network") against the vocabulary of the keyword index.
+
+import type { KeywordIndex } from './keywordIndex';
+import { analyze } from './textAnalyzer';
+import { QueryNode, QuerySyntaxError, parseSearchQuery } from './queryParser';
+import { QuerySuggestion } from '../../shared/api';
+
+/**
+ * Edit distance between two words, counting insertions, deletions, substitutions and adjacent
+ * transpositions. Stops early and returns maxDistance + 1 once the distance is known to exceed maxDistance.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a === b) return 0;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
+
+/**
+ * Edits allowed for a word of this length: none for very short words, where almost anything is
+ * one edit away, one up to five characters and two beyond
+ */
+export function maxEditsFor(word: string): number {
+  if (word.length <= 2) return 0;
+  return word.length <= 5 ? 1 : 2;
+}
+
+/**
+ * Suggest a corrected query when some of its words do not occur in the index but similarly spelled
+ * words do. Operators, field clauses and quoting are left as they are. Returns null when there is
+ * nothing to correct or the query does not parse.
+ */
+export function suggestCorrection(query: string, index: KeywordIndex): QuerySuggestion | null {
+  let root: QueryNode | null;
+  try {
+    root = parseSearchQuery(query).root;
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return null;
+    throw error;
+  }
+  if (!root) return null;
+
+  const corrections: QuerySuggestion['corrections'] = [];
+
+  for (const node of textNodes(root)) {
+    const offset = query.indexOf(node.value, node.position);
+
+    for (const token of analyze(node.value)) {
+      if (index.documentFrequency(token.term) > 0) continue;
+
+      const [best] = index.findSimilarWords(token.original);
+      if (best) {
+        corrections.push({
+          original: token.original,
+          suggestion: matchCase(token.original, best.word),
+          start: offset + token.start,
+          end: offset + token.end
+        });
+      }
+    }
+  }
+
+  if (corrections.length === 0) return null;
+
+  let corrected = query;
+  [...corrections].reverse().forEach(correction => {
+    corrected = corrected.slice(0, correction.start) + correction.suggestion + corrected.slice(correction.end);
+  });
+
+  return { query: corrected, corrections };
+}
+
+/**
+ * Term and phrase nodes of a query, including excluded ones
+ */
+function textNodes(node: QueryNode): Array<Extract<QueryNode, { type: 'term' | 'phrase' }>> {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node];
+    case 'not':
+      return textNodes(node.child);
+    case 'and':
+    case 'or':
+      return node.children.flatMap(textNodes);
+    default:
+      return [];
+  }
+}
+
+function matchCase(original: string, suggestion: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) {
+    return suggestion.toUpperCase();
+  }
+  if (/^\p{Lu}/u.test(original)) {
+    return suggestion[0].toUpperCase() + suggestion.slice(1);
+  }
+  return suggestion;
+}
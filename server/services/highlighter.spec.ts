@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { findMatches, highlightChunk } from "./highlighter";
+
+const filler = "The committee met on Tuesday and reviewed the minutes of the previous session.";
+const chunk = [
+  filler,
+  filler,
+  "Engine oil should be changed every 10,000 kilometres under normal driving conditions.",
+  filler,
+  filler,
+].join(" ");
+
+describe("highlightChunk", () => {
+  it("should centre the snippet on the best-matching sentence", () => {
+    const snippet = highlightChunk("how often to change engine oil", chunk, { maxLength: 120 });
+
+    expect(snippet.text).toContain("Engine oil should be changed every 10,000 kilometres");
+    expect(snippet.text.startsWith("...")).toBe(true);
+    expect(snippet.text.endsWith("...")).toBe(true);
+    expect(snippet.highlighted).toContain("<mark>Engine</mark> <mark>oil</mark> should be <mark>changed</mark>");
+  });
+
+  it("should report match offsets within the chunk and the document", () => {
+    const documentOffset = 5000;
+    const snippet = highlightChunk("engine oil", chunk, { documentOffset });
+
+    expect(snippet.matches.map((m) => m.text)).toEqual(["Engine", "oil"]);
+    for (const match of snippet.matches) {
+      expect(chunk.slice(match.start, match.end)).toBe(match.text);
+      expect(match.documentStart).toBe(documentOffset + match.start);
+      expect(match.documentEnd).toBe(documentOffset + match.end);
+    }
+  });
+
+  it("should cut long sentences around their matches on word boundaries", () => {
+    const longSentence = `${"lorem ipsum ".repeat(60)}the turbine blade failed ${"dolor sit ".repeat(60)}`;
+    const snippet = highlightChunk("turbine blade", longSentence, { maxLength: 80 });
+
+    expect(snippet.text).toContain("turbine blade");
+    expect(snippet.end - snippet.start).toBeLessThanOrEqual(80);
+    expect(longSentence[snippet.start - 1]).toBe(" ");
+  });
+
+  it("should fall back to the start of the chunk when nothing matches", () => {
+    const snippet = highlightChunk("quantum chromodynamics", chunk, { maxLength: 50 });
+
+    expect(snippet.start).toBe(0);
+    expect(snippet.matches).toHaveLength(0);
+    expect(snippet.text.endsWith("...")).toBe(true);
+  });
+
+  it("should escape HTML in the highlighted snippet", () => {
+    const snippet = highlightChunk("tags", "Use <script> tags & attributes carefully.");
+    expect(snippet.highlighted).toBe("Use &lt;script&gt; <mark>tags</mark> &amp; attributes carefully.");
+  });
+});
+
+describe("findMatches", () => {
+  it("should match stemmed variants of query terms", () => {
+    const matches = findMatches("running", "She runs daily and ran yesterday; running helps.");
+    expect(matches.map((m) => m.text)).toEqual(["runs", "running"]);
+  });
+});
@@ -0,0 +1,191 @@
+// Query-aware snippets for search results
+// Picks the sentences of a chunk that match the query best, cuts a snippet around them and
+// reports where each matched term sits in the chunk and in the original document.
+
+import { analyze, analyzeTerms } from './textAnalyzer';
+import { SearchTermMatch } from '../../shared/api';
+
+// Offsets of a matched term within the chunk and, when known, within the document
+export type TermMatch = SearchTermMatch;
+
+export interface Snippet {
+  text: string;            // plain snippet, with '...' where it was cut from the chunk
+  highlighted: string;     // HTML-escaped snippet with matches wrapped in the highlight tags
+  start: number;           // range of the snippet within the chunk
+  end: number;
+  matches: TermMatch[];    // every match in the chunk, not only those inside the snippet
+}
+
+export interface HighlightOptions {
+  maxLength?: number;      // snippet length in characters (default 300)
+  documentOffset?: number; // character offset of the chunk in its document
+  preTag?: string;
+  postTag?: string;
+}
+
+interface Sentence {
+  start: number;
+  end: number;
+  score: number;
+}
+
+const DEFAULT_MAX_LENGTH = 300;
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["'”’)\]]*)?|[.!?]+/g;
+
+/**
+ * Find every occurrence of a query term in the content
+ */
+export function findMatches(query: string, content: string, documentOffset?: number): TermMatch[] {
+  let queryTerms = new Set(analyzeTerms(query));
+  if (queryTerms.size === 0) {
+    // Queries made only of stopwords still deserve highlighting
+    queryTerms = new Set(analyze(query, { keepStopwords: true }).map(token => token.term));
+  }
+  if (queryTerms.size === 0) return [];
+
+  return analyze(content, { keepStopwords: true })
+    .filter(token => queryTerms.has(token.term))
+    .map(token => ({
+      term: token.term,
+      text: token.original,
+      start: token.start,
+      end: token.end,
+      ...(documentOffset !== undefined && {
+        documentStart: documentOffset + token.start,
+        documentEnd: documentOffset + token.end
+      })
+    }));
+}
+
+/**
+ * Build a snippet centred on the best-matching sentences of a chunk
+ */
+export function highlightChunk(query: string, content: string, options: HighlightOptions = {}): Snippet {
+  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+  const matches = findMatches(query, content, options.documentOffset);
+
+  let start = 0;
+  let end = Math.min(content.length, maxLength);
+
+  if (matches.length > 0) {
+    [start, end] = selectWindow(content, matches, maxLength);
+  }
+
+  [start, end] = snapToWords(content, start, end);
+
+  return {
+    text: `${start > 0 ? '...' : ''}${content.slice(start, end)}${end < content.length ? '...' : ''}`,
+    highlighted: markMatches(content, start, end, matches, options.preTag ?? '<mark>', options.postTag ?? '</mark>'),
+    start,
+    end,
+    matches
+  };
+}
+
+/**
+ * Choose the snippet range: the best sentence, grown with its neighbours while they fit
+ */
+function selectWindow(content: string, matches: TermMatch[], maxLength: number): [number, number] {
+  const sentences = splitSentences(content, matches);
+  if (sentences.length === 0) return [0, Math.min(content.length, maxLength)];
+
+  let best = 0;
+  sentences.forEach((sentence, index) => {
+    if (sentence.score > sentences[best].score) best = index;
+  });
+
+  let first = best;
+  let last = best;
+
+  // A sentence longer than the snippet is cut around its matches instead
+  if (sentences[best].end - sentences[best].start >= maxLength) {
+    const sentence = sentences[best];
+    const inside = matches.filter(match => match.start >= sentence.start && match.end <= sentence.end);
+    const centre = inside.length > 0
+      ? (inside[0].start + inside[inside.length - 1].end) / 2
+      : sentence.start + maxLength / 2;
+    const start = Math.max(sentence.start, Math.min(Math.round(centre - maxLength / 2), sentence.end - maxLength));
+    return [start, start + maxLength];
+  }
+
+  while (true) {
+    const before = first > 0 ? sentences[first - 1] : null;
+    const after = last < sentences.length - 1 ? sentences[last + 1] : null;
+    const fitsBefore = before && sentences[last].end - before.start <= maxLength;
+    const fitsAfter = after && after.end - sentences[first].start <= maxLength;
+
+    if (fitsBefore && (!fitsAfter || before.score > after.score)) {
+      first--;
+    } else if (fitsAfter) {
+      last++;
+    } else {
+      break;
+    }
+  }
+
+  return [sentences[first].start, sentences[last].end];
+}
+
+/**
+ * Split content into trimmed sentence ranges, scored by distinct and total query term matches
+ */
+function splitSentences(content: string, matches: TermMatch[]): Sentence[] {
+  const sentences: Sentence[] = [];
+
+  for (const match of content.matchAll(SENTENCE_PATTERN)) {
+    const text = match[0];
+    const start = match.index + (text.length - text.trimStart().length);
+    const end = match.index + text.trimEnd().length;
+    if (end <= start) continue;
+
+    const inside = matches.filter(m => m.start >= start && m.end <= end);
+    const distinct = new Set(inside.map(m => m.term)).size;
+    sentences.push({ start, end, score: distinct + inside.length * 0.1 });
+  }
+
+  return sentences;
+}
+
+/**
+ * Move cut points that fall inside a word out to the nearest word boundary within the range
+ */
+function snapToWords(content: string, start: number, end: number): [number, number] {
+  if (start > 0 && /\S/.test(content[start - 1]) && /\S/.test(content[start])) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < end) start = space + 1;
+  }
+  if (end < content.length && /\S/.test(content[end - 1]) && /\S/.test(content[end])) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+  return [start, end];
+}
+
+function markMatches(
+  content: string,
+  start: number,
+  end: number,
+  matches: TermMatch[],
+  preTag: string,
+  postTag: string
+): string {
+  let highlighted = start > 0 ? '...' : '';
+  let cursor = start;
+
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    highlighted += escapeHtml(content.slice(cursor, match.start)) + preTag + escapeHtml(match.text) + postTag;
+    cursor = match.end;
+  }
+
+  highlighted += escapeHtml(content.slice(cursor, end));
+  return end < content.length ? `${highlighted}...` : highlighted;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { HnswIndex } from "./hnswIndex";
+
+let seed = 7;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647 - 0.5;
+};
+const randomVector = (dimension: number) => Array.from({ length: dimension }, random);
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+};
+
+const exactTopK = (vectors: Map<string, number[]>, query: number[], k: number) =>
+  Array.from(vectors.entries())
+    .map(([id, vector]) => ({ id, similarity: cosine(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map((entry) => entry.id);
+
+describe("HnswIndex", () => {
+  const buildIndex = (count: number, dimension = 16) => {
+    const index = new HnswIndex({ m: 8 });
+    const vectors = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+      const vector = randomVector(dimension);
+      vectors.set(`v${i}`, vector);
+      index.add(`v${i}`, vector);
+    }
+    return { index, vectors };
+  };
+
+  it("should return cosine similarities for the nearest vectors", () => {
+    const index = new HnswIndex();
+    index.add("x", [1, 0]);
+    index.add("y", [0, 2]);
+    index.add("xy", [1, 1]);
+
+    const results = index.search([3, 0], 2);
+    expect(results.map((r) => r.id)).toEqual(["x", "xy"]);
+    expect(results[0].similarity).toBeCloseTo(1);
+    expect(results[1].similarity).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("should find most of the exact top-k neighbours", () => {
+    const { index, vectors } = buildIndex(500);
+    let hits = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = randomVector(16);
+      const truth = new Set(exactTopK(vectors, query, 10));
+      hits += index.search(query, 10).filter((r) => truth.has(r.id)).length;
+    }
+    expect(hits / 200).toBeGreaterThan(0.9);
+  });
+
+  it("should never return removed vectors and stay searchable", () => {
+    const { index, vectors } = buildIndex(300);
+    for (let i = 0; i < 300; i += 3) {
+      index.remove(`v${i}`);
+      vectors.delete(`v${i}`);
+    }
+
+    expect(index.size).toBe(200);
+    const query = randomVector(16);
+    const results = index.search(query, 10, { ef: 100 });
+    expect(results).toHaveLength(10);
+    results.forEach((r) => expect(vectors.has(r.id)).toBe(true));
+    expect(results[0].id).toBe(exactTopK(vectors, query, 1)[0]);
+  });
+
+  it("should only return ids that pass the filter", () => {
+    const { index } = buildIndex(200);
+    const results = index.search(randomVector(16), 5, {
+      filter: (id) => id.endsWith("7"),
+    });
+    expect(results).toHaveLength(5);
+    results.forEach((r) => expect(r.id.endsWith("7")).toBe(true));
+  });
+
+  it("should replace a vector added twice under the same id", () => {
+    const index = new HnswIndex();
+    index.add("a", [1, 0]);
+    index.add("b", [0, 1]);
+    index.add("a", [0, 1]);
+
+    expect(index.size).toBe(2);
+    expect(index.search([0, 1], 2).every((r) => r.similarity > 0.99)).toBe(true);
+  });
+});
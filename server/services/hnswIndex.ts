@@ -0,0 +1,452 @@
+// Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+// (Malkov & Yashunin, 2016). Vectors are L2-normalized on insert so the inner product is cosine similarity.
+// Inserts and deletes are incremental; deleted nodes are unlinked and their neighbours reconnected.
+
+export interface HnswOptions {
+  m?: number;              // max neighbours per node on upper layers (layer 0 keeps 2 * m)
+  efConstruction?: number; // candidate list size while inserting
+  efSearch?: number;       // default candidate list size while searching
+  seed?: number;           // seed for level assignment, so builds are reproducible
+}
+
+export interface HnswMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface HnswSearchOptions {
+  ef?: number;
+  filter?: (id: string) => boolean;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: string[][]; // neighbour ids per layer
+  inbound: Set<string>[]; // ids of nodes linking to this one, per layer, so deletes avoid a full scan
+}
+
+interface Candidate {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * Binary heap ordered by a comparator; the root is the element for which compare returns the smallest value
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+const closestFirst = (a: Candidate, b: Candidate) => b.similarity - a.similarity;
+const furthestFirst = (a: Candidate, b: Candidate) => a.similarity - b.similarity;
+
+export class HnswIndex {
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimension: number | null = null;
+  private readonly m: number;
+  private readonly maxNeighborsLayer0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+  private randomState: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.maxNeighborsLayer0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.randomState = options.seed ?? 42;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Insert (or replace) a vector
+   */
+  add(id: string, vector: number[]): void {
+    if (this.dimension === null) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      id,
+      vector: this.normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      inbound: Array.from({ length: level + 1 }, () => new Set<string>())
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(node.vector, current, layer);
+    }
+
+    // Connect the node on every layer it lives on
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.efConstruction, layer);
+      const neighbors = this.selectNeighbors(node.vector, candidates, this.m);
+      this.setNeighbors(node, layer, neighbors.map(candidate => candidate.id));
+
+      neighbors.forEach(neighbor => this.connect(neighbor.id, id, layer));
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Delete a vector, relinking the nodes that pointed at it so the graph stays navigable
+   */
+  remove(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const formerNeighbors = node.neighbors[layer].filter(neighborId => this.nodes.has(neighborId));
+      formerNeighbors.forEach(neighborId => this.nodes.get(neighborId).inbound[layer].delete(id));
+
+      // Only nodes that linked to the removed node lost an edge; refill their lists
+      // with the closest of its neighbours they are not linked to yet
+      for (const affectedId of node.inbound[layer]) {
+        const affectedNode = this.nodes.get(affectedId);
+        if (!affectedNode) continue;
+
+        const remaining = affectedNode.neighbors[layer].filter(neighborId => neighborId !== id);
+        const linked = new Set([...remaining, affectedId]);
+        const replacements = formerNeighbors
+          .filter(candidateId => !linked.has(candidateId))
+          .map(candidateId => ({
+            id: candidateId,
+            similarity: this.dot(affectedNode.vector, this.nodes.get(candidateId).vector)
+          }))
+          .sort(closestFirst)
+          .slice(0, this.maxNeighbors(layer) - remaining.length);
+
+        this.setNeighbors(affectedNode, layer, [...remaining, ...replacements.map(candidate => candidate.id)]);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.electEntryPoint();
+    }
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.dimension = null;
+  }
+
+  /**
+   * Approximate k nearest neighbours by cosine similarity, best first.
+   * With a filter, the graph is still traversed through every node but only allowed ids are returned.
+   */
+  search(vector: number[], k: number, options: HnswSearchOptions = {}): HnswMatch[] {
+    if (this.entryPoint === null || k <= 0) return [];
+    if (vector.length !== this.dimension) {
+      throw new Error(`Query dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    const query = this.normalize(vector);
+    const ef = Math.max(options.ef ?? this.efSearch, k);
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(query, current, layer);
+    }
+
+    const candidates = this.searchLayer(query, [current], ef, 0, options.filter);
+
+    return candidates
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, similarity: candidate.similarity }));
+  }
+
+  /**
+   * Beam search on one layer. Returns up to ef results sorted best first;
+   * when a filter is given only allowed nodes count toward the results.
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryIds: string[],
+    ef: number,
+    layer: number,
+    filter?: (id: string) => boolean
+  ): Candidate[] {
+    const visited = new Set<string>();
+    const frontier = new Heap<Candidate>(closestFirst);
+    const results = new Heap<Candidate>(furthestFirst);
+
+    for (const entryId of entryIds) {
+      const entry = this.nodes.get(entryId);
+      if (!entry || visited.has(entryId)) continue;
+      visited.add(entryId);
+
+      const candidate = { id: entryId, similarity: this.dot(query, entry.vector) };
+      frontier.push(candidate);
+      if (!filter || filter(entryId)) {
+        results.push(candidate);
+        if (results.size > ef) results.pop();
+      }
+    }
+
+    while (frontier.size > 0) {
+      const closest = frontier.pop();
+      const worst = results.peek();
+      if (worst && results.size >= ef && closest.similarity < worst.similarity) break;
+
+      const node = this.nodes.get(closest.id);
+      for (const neighborId of node.neighbors[layer] || []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const similarity = this.dot(query, neighbor.vector);
+        const furthest = results.peek();
+        if (results.size < ef || !furthest || similarity > furthest.similarity) {
+          const candidate = { id: neighborId, similarity };
+          frontier.push(candidate);
+          if (!filter || filter(neighborId)) {
+            results.push(candidate);
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort(closestFirst);
+  }
+
+  /**
+   * Walk greedily towards the query on a single layer
+   */
+  private greedyClosest(query: Float32Array, startId: string, layer: number): string {
+    let currentId = startId;
+    let best = this.dot(query, this.nodes.get(currentId).vector);
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighborId of this.nodes.get(currentId).neighbors[layer] || []) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        const similarity = this.dot(query, neighbor.vector);
+        if (similarity > best) {
+          best = similarity;
+          currentId = neighborId;
+          improved = true;
+        }
+      }
+    }
+
+    return currentId;
+  }
+
+  /**
+   * Neighbour selection heuristic: keep a candidate only if it is closer to the base node
+   * than to any neighbour already kept, which spreads links across clusters
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], max: number): Candidate[] {
+    const sorted = [...candidates].sort(closestFirst);
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const candidateVector = this.nodes.get(candidate.id).vector;
+      const dominated = selected.some(kept =>
+        this.dot(candidateVector, this.nodes.get(kept.id).vector) > candidate.similarity
+      );
+      if (dominated) {
+        skipped.push(candidate);
+      } else {
+        selected.push(candidate);
+      }
+    }
+
+    // Fill remaining slots with the closest skipped candidates
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  /**
+   * Add a link from one node to another, pruning the node's list if it grows too long
+   */
+  private connect(fromId: string, toId: string, layer: number): void {
+    const from = this.nodes.get(fromId);
+    const neighbors = from.neighbors[layer];
+    if (neighbors.includes(toId)) return;
+
+    const max = this.maxNeighbors(layer);
+    if (neighbors.length < max) {
+      neighbors.push(toId);
+      this.nodes.get(toId).inbound[layer].add(fromId);
+      return;
+    }
+
+    const candidates = [...neighbors, toId].map(neighborId => ({
+      id: neighborId,
+      similarity: this.dot(from.vector, this.nodes.get(neighborId).vector)
+    }));
+    this.setNeighbors(from, layer, this.selectNeighbors(from.vector, candidates, max).map(candidate => candidate.id));
+  }
+
+  /**
+   * Replace a node's neighbour list on one layer, keeping the inbound links in sync
+   */
+  private setNeighbors(node: HnswNode, layer: number, neighborIds: string[]): void {
+    const next = new Set(neighborIds);
+    node.neighbors[layer].forEach(neighborId => {
+      if (!next.has(neighborId)) {
+        this.nodes.get(neighborId)?.inbound[layer].delete(node.id);
+      }
+    });
+    neighborIds.forEach(neighborId => this.nodes.get(neighborId).inbound[layer].add(node.id));
+    node.neighbors[layer] = neighborIds;
+  }
+
+  /**
+   * Pick the highest-level remaining node as the new entry point
+   */
+  private electEntryPoint(): void {
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    for (const node of this.nodes.values()) {
+      if (node.level > this.maxLevel) {
+        this.maxLevel = node.level;
+        this.entryPoint = node.id;
+      }
+    }
+    if (this.entryPoint === null) {
+      this.dimension = null;
+    }
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.maxNeighborsLayer0 : this.m;
+  }
+
+  /**
+   * Exponentially decaying level distribution, using a seeded generator (mulberry32)
+   */
+  private randomLevel(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) | 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+
+    return Math.floor(-Math.log(1 - random) * this.levelMultiplier);
+  }
+
+  private normalize(vector: number[]): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    const normalized = new Float32Array(vector.length);
+    if (norm === 0) return normalized;
+    for (let i = 0; i < vector.length; i++) {
+      normalized[i] = vector[i] / norm;
+    }
+    return normalized;
+  }
+
+  private dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+}
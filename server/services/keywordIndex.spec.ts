@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { KeywordIndex } from "./keywordIndex";
+import { analyze, stem } from "./textAnalyzer";
+
+describe("textAnalyzer", () => {
+  it("should stem common English suffixes", () => {
+    expect(stem("running")).toBe("run");
+    expect(stem("networks")).toBe("network");
+    expect(stem("relational")).toBe("relat");
+    expect(stem("generalization")).toBe("gener");
+  });
+
+  it("should drop stopwords but keep word positions and offsets", () => {
+    const tokens = analyze("Proof of Stake");
+    expect(tokens.map((t) => t.term)).toEqual(["proof", "stake"]);
+    expect(tokens.map((t) => t.position)).toEqual([0, 2]);
+    expect(tokens[1].start).toBe(9);
+    expect(tokens[1].end).toBe(14);
+  });
+});
+
+describe("KeywordIndex", () => {
+  const buildIndex = () => {
+    const index = new KeywordIndex();
+    index.add("a", "Blockchain consensus uses proof of stake and proof of work.");
+    index.add("b", "Neural networks are trained with gradient descent.");
+    index.add("c", "Proof of stake secures some blockchain networks.");
+    return index;
+  };
+
+  it("should only return entries containing query terms", () => {
+    const results = buildIndex().search("gradient descent");
+    expect(results.map((r) => r.key)).toEqual(["b"]);
+  });
+
+  it("should match inflected forms through stemming", () => {
+    const results = buildIndex().search("network");
+    expect(results.map((r) => r.key).sort()).toEqual(["b", "c"]);
+  });
+
+  it("should rank higher term frequency first", () => {
+    const results = buildIndex().search("proof");
+    expect(results[0].key).toBe("a");
+  });
+
+  it("should weight rare terms above common ones", () => {
+    const index = buildIndex();
+    expect(index.idf("descent")).toBeGreaterThan(index.idf("proof"));
+  });
+
+  it("should update document frequencies when entries are removed", () => {
+    const index = buildIndex();
+    index.remove("c");
+    expect(index.documentFrequency("proof")).toBe(1);
+    expect(index.search("stake").map((r) => r.key)).toEqual(["a"]);
+    expect(index.size).toBe(2);
+  });
+
+  it("should apply the entry filter before scoring", () => {
+    const results = buildIndex().search("blockchain", {
+      filter: (key) => key !== "a",
+    });
+    expect(results.map((r) => r.key)).toEqual(["c"]);
+  });
+
+  it("should match misspelled words to indexed words only with fuzzy matching", () => {
+    const index = buildIndex();
+    expect(index.search("blokchain")).toEqual([]);
+    expect(index.search("blokchain", { fuzzy: true }).map((r) => r.key).sort()).toEqual(["a", "c"]);
+  });
+
+  it("should drop words of removed entries from the vocabulary", () => {
+    const index = buildIndex();
+    expect(index.findSimilarWords("gradiant").map((m) => m.word)).toEqual(["gradient"]);
+    index.remove("b");
+    expect(index.findSimilarWords("gradiant")).toEqual([]);
+  });
+});
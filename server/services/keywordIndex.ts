@@ -0,0 +1,279 @@
+// Inverted index with BM25 scoring for the keyword half of hybrid search
+// Postings keep term positions so callers can check phrase adjacency. The index also keeps the
+// vocabulary of words as written (before stemming), used for fuzzy matching and spelling suggestions.
+
+import { analyze, analyzeTerms, normalizeToken } from './textAnalyzer';
+import { editDistance, maxEditsFor } from './fuzzy';
+
+export interface KeywordMatch {
+  key: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface KeywordSearchOptions {
+  limit?: number;
+  filter?: (key: string) => boolean;
+  fuzzy?: boolean; // match query words missing from the index to similarly spelled indexed words
+}
+
+export interface VocabularyMatch {
+  word: string;     // indexed word as written, normalized
+  term: string;     // its stemmed index term
+  distance: number; // edit distance from the looked-up word
+  entries: number;  // entries containing the word
+}
+
+export class KeywordIndex {
+  // term -> entry key -> positions of the term in that entry
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private entryTerms: Map<string, string[]> = new Map();
+  private entryLengths: Map<string, number> = new Map();
+  private totalLength = 0;
+  // normalized word -> stemmed term and number of entries containing it
+  private words: Map<string, { term: string; entries: number }> = new Map();
+  private wordsByLength: Map<number, Set<string>> = new Map();
+  private entryWords: Map<string, string[]> = new Map();
+  private readonly FUZZY_EXPANSIONS = 3;
+  private readonly FUZZY_PENALTY = 0.5; // score multiplier per edit
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {}
+
+  /**
+   * Add (or replace) an entry in the index
+   */
+  add(key: string, text: string): void {
+    if (this.entryLengths.has(key)) {
+      this.remove(key);
+    }
+
+    const tokens = analyze(text);
+    const termPositions = new Map<string, number[]>();
+
+    tokens.forEach(token => {
+      const positions = termPositions.get(token.term) || [];
+      positions.push(token.position);
+      termPositions.set(token.term, positions);
+    });
+
+    for (const [term, positions] of termPositions) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(key, positions);
+    }
+
+    this.entryTerms.set(key, Array.from(termPositions.keys()));
+    this.entryLengths.set(key, tokens.length);
+    this.totalLength += tokens.length;
+
+    const entryWords = new Map<string, string>();
+    tokens.forEach(token => entryWords.set(normalizeToken(token.original), token.term));
+    entryWords.forEach((term, word) => this.addWord(word, term));
+    this.entryWords.set(key, Array.from(entryWords.keys()));
+  }
+
+  /**
+   * Remove an entry and its postings
+   */
+  remove(key: string): void {
+    const terms = this.entryTerms.get(key);
+    if (!terms) return;
+
+    terms.forEach(term => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(key);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.totalLength -= this.entryLengths.get(key) || 0;
+    this.entryTerms.delete(key);
+    this.entryLengths.delete(key);
+
+    this.entryWords.get(key)?.forEach(word => this.removeWord(word));
+    this.entryWords.delete(key);
+  }
+
+  private addWord(word: string, term: string): void {
+    const entry = this.words.get(word);
+    if (entry) {
+      entry.entries++;
+      return;
+    }
+
+    this.words.set(word, { term, entries: 1 });
+    let sameLength = this.wordsByLength.get(word.length);
+    if (!sameLength) {
+      sameLength = new Set();
+      this.wordsByLength.set(word.length, sameLength);
+    }
+    sameLength.add(word);
+  }
+
+  private removeWord(word: string): void {
+    const entry = this.words.get(word);
+    if (!entry) return;
+
+    if (--entry.entries === 0) {
+      this.words.delete(word);
+      this.wordsByLength.get(word.length)?.delete(word);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.entryLengths.has(key);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.entryTerms.clear();
+    this.entryLengths.clear();
+    this.totalLength = 0;
+    this.words.clear();
+    this.wordsByLength.clear();
+    this.entryWords.clear();
+  }
+
+  get size(): number {
+    return this.entryLengths.size;
+  }
+
+  /**
+   * Number of entries containing the term
+   */
+  documentFrequency(term: string): number {
+    return this.postings.get(term)?.size || 0;
+  }
+
+  /**
+   * Positions of a term within an entry, or an empty list
+   */
+  getPositions(term: string, key: string): number[] {
+    return this.postings.get(term)?.get(key) || [];
+  }
+
+  /**
+   * Entries containing the term
+   */
+  getEntries(term: string): string[] {
+    return Array.from(this.postings.get(term)?.keys() || []);
+  }
+
+  /**
+   * Lucene-style inverse document frequency, which stays positive even for very common terms
+   */
+  idf(term: string): number {
+    const n = this.size;
+    const df = this.documentFrequency(term);
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * BM25 contribution of one term to one entry
+   */
+  scoreTerm(term: string, key: string): number {
+    const positions = this.postings.get(term)?.get(key);
+    if (!positions) return 0;
+
+    const tf = positions.length;
+    const averageLength = this.size > 0 ? this.totalLength / this.size : 0;
+    const length = this.entryLengths.get(key) || 0;
+    const normalization = averageLength > 0 ? 1 - this.b + this.b * (length / averageLength) : 1;
+
+    return this.idf(term) * (tf * (this.k1 + 1)) / (tf + this.k1 * normalization);
+  }
+
+  /**
+   * Indexed words within the allowed edit distance of a word, closest and most common first.
+   * The distance defaults to 0 for words of up to 2 characters, 1 up to 5 and 2 beyond.
+   */
+  findSimilarWords(word: string, maxEdits = maxEditsFor(word)): VocabularyMatch[] {
+    const normalized = normalizeToken(word);
+    const matches: VocabularyMatch[] = [];
+    // Numbers one digit apart are different numbers, not typos
+    if (maxEdits === 0 || /\d/.test(normalized)) return matches;
+
+    for (let length = normalized.length - maxEdits; length <= normalized.length + maxEdits; length++) {
+      for (const candidate of this.wordsByLength.get(length) || []) {
+        if (candidate === normalized) continue;
+
+        const distance = editDistance(normalized, candidate, maxEdits);
+        if (distance <= maxEdits) {
+          const { term, entries } = this.words.get(candidate);
+          matches.push({ word: candidate, term, distance, entries });
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance || b.entries - a.entries);
+  }
+
+  /**
+   * Score entries against a free-text query. Only postings of the query terms are visited.
+   * With fuzzy matching, query words that are not in the index are replaced by the closest indexed
+   * words, scored lower the more edits they are away.
+   */
+  search(query: string, options: KeywordSearchOptions = {}): KeywordMatch[] {
+    if (!options.fuzzy) {
+      return this.searchTerms(Array.from(new Set(analyzeTerms(query))), options);
+    }
+
+    const weights = new Map<string, number>();
+    for (const token of analyze(query)) {
+      if (this.postings.has(token.term)) {
+        weights.set(token.term, 1);
+        continue;
+      }
+
+      const expansions = new Map<string, number>();
+      for (const match of this.findSimilarWords(token.original)) {
+        if (!expansions.has(match.term)) {
+          expansions.set(match.term, Math.pow(this.FUZZY_PENALTY, match.distance));
+        }
+        if (expansions.size >= this.FUZZY_EXPANSIONS) break;
+      }
+      expansions.forEach((weight, term) => weights.set(term, Math.max(weights.get(term) ?? 0, weight)));
+    }
+
+    return this.scoreWeightedTerms(weights, options);
+  }
+
+  /**
+   * Score entries against already-analyzed terms
+   */
+  searchTerms(terms: string[], options: KeywordSearchOptions = {}): KeywordMatch[] {
+    return this.scoreWeightedTerms(new Map(terms.map(term => [term, 1])), options);
+  }
+
+  private scoreWeightedTerms(weights: Map<string, number>, options: KeywordSearchOptions): KeywordMatch[] {
+    const matches = new Map<string, KeywordMatch>();
+
+    for (const [term, weight] of weights) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      for (const key of posting.keys()) {
+        if (options.filter && !options.filter(key)) continue;
+
+        let match = matches.get(key);
+        if (!match) {
+          match = { key, score: 0, matchedTerms: [] };
+          matches.set(key, match);
+        }
+        match.score += weight * this.scoreTerm(term, key);
+        match.matchedTerms.push(term);
+      }
+    }
+
+    const sorted = Array.from(matches.values()).sort((a, b) => b.score - a.score);
+    return options.limit ? sorted.slice(0, options.limit) : sorted;
+  }
+}
@@ -0,0 +1,61 @@
+// Minimal chat-completion abstraction for retrieval helpers (reranking, query rewriting)
+// Kept separate from AIQueryHandler so those helpers can be tested with a scripted model
+
+import OpenAI from 'openai';
+
+export interface LanguageModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LanguageModel {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: LanguageModelMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+/**
+ * OpenAI chat completions
+ */
+export class OpenAILanguageModel implements LanguageModel {
+  readonly name = 'openai';
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(config: { apiKey: string; model?: string }) {
+    this.model = config.model || 'gpt-4o-mini';
+    this.client = new OpenAI({ apiKey: config.apiKey });
+  }
+
+  async complete(messages: LanguageModelMessage[], options: CompletionOptions = {}): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: options.temperature ?? 0,
+      max_tokens: options.maxTokens ?? 500
+    });
+
+    return completion.choices[0]?.message?.content || '';
+  }
+}
+
+let defaultLanguageModel: LanguageModel | null | undefined;
+
+/**
+ * Shared model for retrieval helpers, or null when no API key is configured.
+ * RETRIEVAL_LLM_MODEL picks a cheaper model than the one used for answers.
+ */
+export function getDefaultLanguageModel(): LanguageModel | null {
+  if (defaultLanguageModel === undefined) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    defaultLanguageModel = apiKey && apiKey !== 'sk-placeholder'
+      ? new OpenAILanguageModel({ apiKey, model: process.env.RETRIEVAL_LLM_MODEL })
+      : null;
+  }
+  return defaultLanguageModel;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { markdownToBlocks } from "./markdownParser";
+import { blocksToText } from "./textStructure";
+
+describe("markdownToBlocks", () => {
+  it("should read headings, paragraphs, nested lists, quotes and tables", () => {
+    const blocks = markdownToBlocks(
+      [
+        "---",
+        "title: Guide",
+        "---",
+        "Setup Guide",
+        "===========",
+        "",
+        "Install the **CLI** and",
+        "run `setup_env` once.",
+        "",
+        "## Steps ##",
+        "",
+        "1. Clone the repo",
+        "2. Configure",
+        "   - copy *env.example*",
+        "     to .env",
+        "",
+        "> Keep secrets out of git.",
+        "",
+        "| Name | Default |",
+        "|------|--------:|",
+        "| PORT | 8080 |",
+        "",
+        "```sh",
+        "# not a heading",
+        "```",
+      ].join("\n"),
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading", text: "Setup Guide", level: 1 },
+      { type: "paragraph", text: "Install the CLI and run setup_env once." },
+      { type: "heading", text: "Steps", level: 2 },
+      { type: "list-item", text: "Clone the repo", level: 1, marker: "1." },
+      { type: "list-item", text: "Configure", level: 1, marker: "2." },
+      { type: "list-item", text: "copy env.example to .env", level: 2, marker: "-" },
+      { type: "paragraph", text: "Keep secrets out of git." },
+      { type: "table-row", text: "Name | Default" },
+      { type: "table-row", text: "PORT | 8080" },
+      { type: "paragraph", text: "# not a heading" },
+    ]);
+  });
+
+  it("should keep the targets of inline, reference and automatic links", () => {
+    const { content, links } = blocksToText(
+      markdownToBlocks(
+        [
+          "# See [the docs](https://example.com/docs \"Docs\")",
+          "",
+          "Ask on [the forum][forum] or mail <mailto:help@example.com>. ![Logo](logo.png) 2 * 3 = 6.",
+          "",
+          "[forum]: https://forum.example.com",
+        ].join("\n"),
+      ),
+    );
+
+    expect(content).toBe("See the docs\n\nAsk on the forum or mail mailto:help@example.com. Logo 2 * 3 = 6.");
+    expect(links.map((link) => [content.slice(link.start, link.end), link.url])).toEqual([
+      ["the docs", "https://example.com/docs"],
+      ["the forum", "https://forum.example.com"],
+      ["mailto:help@example.com", "mailto:help@example.com"],
+    ]);
+  });
+});
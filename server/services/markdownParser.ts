@@ -0,0 +1,190 @@
+// Markdown documents
+// Reads the block structure of Markdown (ATX and underlined headings, paragraphs, nested lists, block
+// quotes, fenced code and pipe tables) into blocks, and reduces inline markup to plain text while
+// keeping the targets of inline, reference and automatic links. It covers the CommonMark and GitHub
+// syntax documents use in practice rather than every corner of the specification.
+
+import { LinkSpan, TextBlock, decodeEntities, normalizeInline } from './textStructure';
+
+const FRONT_MATTER = /^---\n[\s\S]*?\n(?:---|\.\.\.)\n/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*)|[ \t]*)$/;
+const BLOCK_QUOTE = /^ {0,3}> ?/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const LINK_DEFINITION = /^ {0,3}\[([^\]]+)\]:\s*<?([^\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*$/;
+// Escapes, code spans, images, inline links, reference links, autolinks, inline HTML and emphasis markers
+const INLINE = /\\([!-/:-@[-`{-~])|(`+)([\s\S]*?)\2|!\[([^\]]*)\]\([^)]*\)|\[([^\]]+)\]\(\s*<?([^)\s>]*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)|\[([^\]]+)\]\[([^\]]*)\]|<((?:https?|ftp|mailto):[^>\s]+)>|<\/?[a-zA-Z][^>]*>|\*\*|__|~~|(?<![\w*])\*(?=\S)|(?<=\S)\*(?![\w*])|(?<!\w)_(?=\S)|(?<=\S)_(?!\w)/g;
+
+/**
+ * Convert Markdown into blocks
+ */
+export function markdownToBlocks(markdown: string): TextBlock[] {
+  const source = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(FRONT_MATTER, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  // Reference link definitions can appear anywhere and are not content themselves
+  const definitions = new Map<string, string>();
+  const lines = source.split('\n').filter(line => {
+    const definition = line.match(LINK_DEFINITION);
+    if (definition) definitions.set(definition[1].toLowerCase(), definition[2]);
+    return !definition;
+  });
+
+  const blocks: TextBlock[] = [];
+  const listIndents: number[] = [];
+  let paragraph: string[] = [];
+  let item: { level: number; marker: string; lines: string[] } | null = null;
+
+  const push = (type: TextBlock['type'], markup: string, details: Partial<TextBlock> = {}) => {
+    const { text, links } = inlineText(markup, definitions);
+    if (text) blocks.push({ type, text, ...details, ...(links.length > 0 && { links }) });
+  };
+
+  const flush = () => {
+    if (item) push('list-item', item.lines.join(' '), { level: item.level, marker: item.marker });
+    if (paragraph.length > 0) push('paragraph', paragraph.join(' '));
+    item = null;
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i].replace(/\t/g, '    ');
+    while (BLOCK_QUOTE.test(line)) line = line.replace(BLOCK_QUOTE, '');
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i]);
+      // Code keeps its lines; inline markup inside it is literal
+      const text = code.join('\n').trim();
+      if (text) blocks.push({ type: 'paragraph', text });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      listIndents.length = 0;
+      push('heading', heading[2] || '', { level: heading[1].length });
+      continue;
+    }
+
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && paragraph.length > 0 && !item) {
+      const text = paragraph.join(' ');
+      paragraph = [];
+      push('heading', text, { level: underline[1][0] === '=' ? 1 : 2 });
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      flush();
+      listIndents.length = 0;
+      push('table-row', tableRow(line, definitions));
+      for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+        push('table-row', tableRow(lines[i], definitions));
+      }
+      i--;
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      flush();
+      const indent = listItem[1].length;
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop();
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent);
+
+      const ordered = /\d/.test(listItem[2]);
+      item = {
+        level: listIndents.length,
+        marker: ordered ? `${parseInt(listItem[2], 10)}.` : '-',
+        lines: [listItem[3] || '']
+      };
+      continue;
+    }
+
+    // Continuation of the current list item or paragraph
+    if (item) {
+      item.lines.push(line.trim());
+    } else {
+      if (!/^\s/.test(line)) listIndents.length = 0;
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Cells of a pipe table row, joined the way table rows are everywhere else
+ */
+function tableRow(line: string, definitions: Map<string, string>): string {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => inlineText(cell, definitions).text)
+    .filter(Boolean)
+    .join(' | ');
+}
+
+/**
+ * Plain text of inline Markdown, with where its links are
+ */
+function inlineText(markup: string, definitions: Map<string, string>): { text: string; links: LinkSpan[] } {
+  const source = markup.replace(/\s+/g, ' ').trim();
+  const links: LinkSpan[] = [];
+  let text = '';
+  let last = 0;
+
+  const addLink = (label: string, url: string, literal = false) => {
+    const start = text.length;
+    text += literal ? label : inlineText(label, definitions).text;
+    if (url) links.push({ start, end: text.length, url });
+  };
+
+  for (const match of source.matchAll(INLINE)) {
+    const [raw, escaped, , code, imageAlt, linkText, url, referenceText, reference, autolink] = match;
+    text += decodeEntities(source.slice(last, match.index));
+    last = match.index + raw.length;
+
+    if (escaped !== undefined) {
+      text += escaped;
+    } else if (code !== undefined) {
+      text += code.trim();
+    } else if (imageAlt !== undefined) {
+      text += imageAlt;
+    } else if (linkText !== undefined) {
+      addLink(linkText, url);
+    } else if (referenceText !== undefined) {
+      const target = definitions.get((reference || referenceText).toLowerCase());
+      if (target) addLink(referenceText, target);
+      else text += raw;
+    } else if (autolink !== undefined) {
+      addLink(autolink, autolink, true);
+    }
+    // Anything else is inline HTML or an emphasis marker, which has no text of its own
+  }
+  text += decodeEntities(source.slice(last));
+
+  return normalizeInline(text, links);
+}
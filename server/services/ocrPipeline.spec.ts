@@ -0,0 +1,127 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, afterAll } from "vitest";
+import { OcrEngine, OcrOptions, OcrPipeline, PageRenderer, isValidOcrLanguage } from "./ocrPipeline";
+
+const renderer: PageRenderer = {
+  name: "fake-renderer",
+  renderPage: async (_filePath, pageNumber) => Buffer.from(String(pageNumber)),
+};
+
+// Recognizes the page number written into the image, tracking how many pages are in flight
+const createEngine = (failOn: number[] = []) => {
+  const stats = { active: 0, maxActive: 0 };
+  const engine: OcrEngine = {
+    name: "fake-ocr",
+    recognize: async (image) => {
+      stats.active++;
+      stats.maxActive = Math.max(stats.maxActive, stats.active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stats.active--;
+
+      const page = Number(image.toString());
+      if (failOn.includes(page)) throw new Error("unreadable");
+      return { text: ` page ${page} text${page === 2 ? " with more words" : ""} `, confidence: page === 2 ? 50 : 90 };
+    },
+  };
+  return { engine, stats };
+};
+
+describe("OcrPipeline", () => {
+  it("should recognize every page in order with bounded parallelism", async () => {
+    const { engine, stats } = createEngine();
+    const pipeline = new OcrPipeline({ renderer, engine, concurrency: 2 });
+
+    const result = await pipeline.recognizePdf("scan.pdf", 5);
+
+    expect(result.pages.map((page) => page.text)).toEqual([
+      "page 1 text",
+      "page 2 text with more words",
+      "page 3 text",
+      "page 4 text",
+      "page 5 text",
+    ]);
+    expect(stats.maxActive).toBe(2);
+    expect(result).toMatchObject({ engine: "fake-ocr", renderer: "fake-renderer" });
+  });
+
+  it("should weight document confidence by the words recognized on each page", async () => {
+    const pipeline = new OcrPipeline({ renderer, engine: createEngine().engine, concurrency: 1 });
+
+    const result = await pipeline.recognizePdf("scan.pdf", 2);
+
+    expect(result.pages.map((page) => page.confidence)).toEqual([90, 50]);
+    // 3 words at 90 and 6 words at 50
+    expect(result.confidence).toBe(63.3);
+  });
+
+  it("should report pages that fail without failing the document", async () => {
+    const pipeline = new OcrPipeline({ renderer, engine: createEngine([2]).engine, concurrency: 3 });
+
+    const result = await pipeline.recognizePdf("scan.pdf", 3);
+
+    expect(result.pages[1]).toEqual({ page: 2, text: "", confidence: 0, error: "unreadable" });
+    expect(result.pages[2].text).toBe("page 3 text");
+  });
+
+  it("should fail when no page can be recognized", async () => {
+    const pipeline = new OcrPipeline({ renderer, engine: createEngine([1, 2]).engine });
+
+    await expect(pipeline.recognizePdf("scan.pdf", 2)).rejects.toThrow("OCR failed on every page: unreadable");
+  });
+});
+
+describe("OcrPipeline images", () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ocr-image-"));
+  const imagePath = path.join(tempDir, "photo.png");
+  fs.writeFileSync(imagePath, "image bytes");
+
+  afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+  // Records the options each recognition ran with and reports the given orientation
+  const createImageEngine = (detectOrientation?: OcrEngine["detectOrientation"]) => {
+    const calls: OcrOptions[] = [];
+    const engine: OcrEngine = {
+      name: "fake-ocr",
+      recognize: async (_image, options = {}) => {
+        calls.push(options);
+        return { text: " Whiteboard notes \n", confidence: 77 };
+      },
+      detectOrientation,
+    };
+    return { engine, calls };
+  };
+
+  it("should turn an image upright before recognizing it in the requested language", async () => {
+    const { engine, calls } = createImageEngine(async () => ({ rotation: 90, confidence: 8 }));
+    const pipeline = new OcrPipeline({ renderer, engine, language: "eng" });
+
+    const result = await pipeline.recognizeImage(imagePath, "deu+eng");
+
+    expect(calls).toEqual([{ language: "deu+eng", rotation: 90 }]);
+    expect(result).toEqual({ text: "Whiteboard notes", confidence: 77, engine: "fake-ocr", language: "deu+eng", rotation: 90 });
+  });
+
+  it("should ignore uncertain or failed orientation detection", async () => {
+    const uncertain = createImageEngine(async () => ({ rotation: 180, confidence: 0.5 }));
+    const failing = createImageEngine(async () => {
+      throw new Error("osd data unavailable");
+    });
+
+    const first = await new OcrPipeline({ renderer, engine: uncertain.engine, language: "fra" }).recognizeImage(imagePath);
+    const second = await new OcrPipeline({ renderer, engine: failing.engine }).recognizeImage(imagePath);
+
+    expect(first).toMatchObject({ language: "fra", rotation: 0 });
+    expect(uncertain.calls).toEqual([{ language: "fra", rotation: 0 }]);
+    expect(second.rotation).toBe(0);
+    expect(second.text).toBe("Whiteboard notes");
+  });
+
+  it("should accept only Tesseract language codes", () => {
+    expect(isValidOcrLanguage("eng")).toBe(true);
+    expect(isValidOcrLanguage("chi_sim+eng")).toBe(true);
+    expect(isValidOcrLanguage("../eng")).toBe(false);
+    expect(isValidOcrLanguage("en")).toBe(false);
+  });
+});
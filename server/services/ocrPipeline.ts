@@ -0,0 +1,304 @@
+// OCR for scanned PDFs and uploaded images
+// Tesseract only reads images, so each PDF page is rendered to an image first and the pages are recognized
+// with bounded parallelism; the text comes back per page, keeping page boundaries for citations, with
+// the engine's confidence for each page. Photos and screenshots are recognized directly, after turning
+// them upright when the engine detects they were taken sideways or upside down. The renderer and the OCR
+// engine are interfaces, so either can be swapped (another rasterizer, a cloud OCR service) without
+// touching the pipeline.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createScheduler, createWorker, OEM, Scheduler, Worker } from 'tesseract.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface PageRenderer {
+  readonly name: string;
+  renderPage(filePath: string, pageNumber: number, dpi: number): Promise<Buffer>; // 1-based page, PNG image
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, as reported by the engine
+}
+
+export interface OcrOptions {
+  language?: string;  // Tesseract language codes, joined with "+" for mixed-language text, e.g. "eng+deu"
+  rotation?: number;  // degrees clockwise to turn the image before recognizing it
+}
+
+export interface OcrOrientation {
+  rotation: number;    // degrees clockwise (0, 90, 180 or 270) that turn the image upright
+  confidence: number;  // as reported by the engine; higher is more certain
+}
+
+export interface OcrEngine {
+  readonly name: string;
+  recognize(image: Buffer, options?: OcrOptions): Promise<OcrResult>;
+  detectOrientation?(image: Buffer): Promise<OcrOrientation | null>;
+  terminate?(): Promise<void>;
+}
+
+export interface OcrPageResult extends OcrResult {
+  page: number;
+  error?: string; // set when the page could not be rendered or recognized; its text is empty
+}
+
+export interface OcrDocumentResult {
+  pages: OcrPageResult[];
+  confidence: number; // mean page confidence weighted by the words recognized on each page
+  engine: string;
+  renderer: string;
+  language: string;
+}
+
+export interface OcrImageResult extends OcrResult {
+  engine: string;
+  language: string;
+  rotation: number;  // degrees clockwise the image was turned before recognition
+}
+
+export interface OcrPipelineOptions {
+  renderer?: PageRenderer;
+  engine?: OcrEngine;
+  concurrency?: number; // pages rendered and recognized at once, across all documents
+  dpi?: number;         // render resolution; Tesseract works best around 300
+  language?: string;    // default recognition language
+}
+
+// Language codes as Tesseract names its trained data: "eng", "chi_sim", "eng+deu"
+const LANGUAGE_PATTERN = /^[a-z]{3}(?:_[a-z]+)?(?:\+[a-z]{3}(?:_[a-z]+)?)*$/i;
+
+// Orientation detections below this confidence are ignored; text-poor images give unreliable guesses
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+/**
+ * Whether a value is a well-formed Tesseract language selection
+ */
+export function isValidOcrLanguage(language: string): boolean {
+  return LANGUAGE_PATTERN.test(language);
+}
+
+/**
+ * Renders pages with pdftoppm from poppler-utils, which has to be installed on the server
+ */
+export class PdftoppmRenderer implements PageRenderer {
+  readonly name = 'pdftoppm';
+
+  constructor(private readonly command = process.env.PDFTOPPM_PATH || 'pdftoppm', private readonly timeoutMs = 60000) {}
+
+  async renderPage(filePath: string, pageNumber: number, dpi: number): Promise<Buffer> {
+    const outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ocr-page-'));
+    const outputRoot = path.join(outputDir, 'page');
+
+    try {
+      await execFileAsync(this.command, [
+        '-f', String(pageNumber),
+        '-l', String(pageNumber),
+        '-r', String(dpi),
+        '-png',
+        '-singlefile',
+        filePath,
+        outputRoot
+      ], { timeout: this.timeoutMs });
+
+      return await fs.promises.readFile(`${outputRoot}.png`);
+    } catch (error) {
+      throw new Error(`Page rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.promises.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Tesseract.js with a pool of workers per language, one recognition per worker at a time
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract';
+  private schedulers = new Map<string, Promise<Scheduler>>();
+  private orientationWorker: Promise<Worker> | null = null;
+
+  constructor(private readonly language = process.env.OCR_LANGUAGE || 'eng', private readonly workers = 2) {}
+
+  async recognize(image: Buffer, options: OcrOptions = {}): Promise<OcrResult> {
+    const scheduler = await this.getScheduler(options.language || this.language);
+    // Without a known rotation, let Tesseract straighten small skews from the text lines it finds
+    const result = options.rotation
+      ? await scheduler.addJob('recognize', image, { rotateRadians: (options.rotation * Math.PI) / 180 })
+      : await scheduler.addJob('recognize', image, { rotateAuto: true });
+    return { text: result.data.text || '', confidence: result.data.confidence ?? 0 };
+  }
+
+  /**
+   * Orientation and script detection. It needs the legacy Tesseract engine and its "osd" data, which
+   * are loaded into a separate worker on first use.
+   */
+  async detectOrientation(image: Buffer): Promise<OcrOrientation | null> {
+    const worker = await this.getOrientationWorker();
+    const { data } = await worker.detect(image);
+    if (data.orientation_degrees === null || data.orientation_confidence === null) return null;
+    // Tesseract reports how far the image is turned clockwise; turning it back is the rest of the circle
+    return { rotation: (360 - data.orientation_degrees) % 360, confidence: data.orientation_confidence };
+  }
+
+  async terminate(): Promise<void> {
+    const schedulers = Array.from(this.schedulers.values());
+    const orientationWorker = this.orientationWorker;
+    this.schedulers.clear();
+    this.orientationWorker = null;
+
+    await Promise.all(schedulers.map(async scheduler => (await scheduler).terminate()));
+    if (orientationWorker) await (await orientationWorker).terminate();
+  }
+
+  private getScheduler(language: string): Promise<Scheduler> {
+    let scheduler = this.schedulers.get(language);
+    if (!scheduler) {
+      scheduler = (async () => {
+        const created = createScheduler();
+        for (let i = 0; i < this.workers; i++) {
+          created.addWorker(await createWorker(language.split('+')));
+        }
+        return created;
+      })();
+      this.schedulers.set(language, scheduler);
+      // Let the next call try again if the workers could not start (e.g. language data unavailable)
+      scheduler.catch(() => {
+        this.schedulers.delete(language);
+      });
+    }
+    return scheduler;
+  }
+
+  private getOrientationWorker(): Promise<Worker> {
+    if (!this.orientationWorker) {
+      this.orientationWorker = createWorker('osd', OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true });
+      this.orientationWorker.catch(() => {
+        this.orientationWorker = null;
+      });
+    }
+    return this.orientationWorker;
+  }
+}
+
+export class OcrPipeline {
+  private readonly renderer: PageRenderer;
+  private readonly engine: OcrEngine;
+  private readonly concurrency: number;
+  private readonly dpi: number;
+  private readonly language: string;
+  private activePages = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(options: OcrPipelineOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? parseInt(process.env.OCR_CONCURRENCY || '2', 10));
+    this.dpi = options.dpi ?? parseInt(process.env.OCR_DPI || '300', 10);
+    this.language = options.language || process.env.OCR_LANGUAGE || 'eng';
+    this.renderer = options.renderer || new PdftoppmRenderer();
+    this.engine = options.engine || new TesseractOcrEngine(this.language, this.concurrency);
+  }
+
+  /**
+   * Render and recognize every page of a PDF. Pages that fail are reported with an error and empty
+   * text rather than failing the document.
+   */
+  async recognizePdf(filePath: string, pageCount: number, language = this.language): Promise<OcrDocumentResult> {
+    const pageNumbers = Array.from({ length: pageCount }, (_, i) => i + 1);
+    const pages = await Promise.all(pageNumbers.map(page => this.withConcurrencyLimit(() => this.recognizePage(filePath, page, language))));
+
+    const failed = pages.filter(page => page.error);
+    if (failed.length === pages.length && pages.length > 0) {
+      throw new Error(`OCR failed on every page: ${failed[0].error}`);
+    }
+    if (failed.length > 0) {
+      console.log(`⚠️ OCR failed on ${failed.length} of ${pages.length} pages of ${path.basename(filePath)}`);
+    }
+
+    return { pages, confidence: weightedConfidence(pages), engine: this.engine.name, renderer: this.renderer.name, language };
+  }
+
+  /**
+   * Recognize an image file (photo, screenshot, scan), turning it upright first when the engine can
+   * tell its orientation
+   */
+  async recognizeImage(filePath: string, language = this.language): Promise<OcrImageResult> {
+    const image = await fs.promises.readFile(filePath);
+
+    return this.withConcurrencyLimit(async () => {
+      const rotation = await this.detectRotation(image, filePath);
+      const { text, confidence } = await this.engine.recognize(image, { language, rotation });
+      return { text: text.trim(), confidence, engine: this.engine.name, language, rotation };
+    });
+  }
+
+  /**
+   * Stop the OCR engine's workers
+   */
+  async terminate(): Promise<void> {
+    await this.engine.terminate?.();
+  }
+
+  private async recognizePage(filePath: string, page: number, language: string): Promise<OcrPageResult> {
+    try {
+      const image = await this.renderer.renderPage(filePath, page, this.dpi);
+      const { text, confidence } = await this.engine.recognize(image, { language });
+      return { page, text: text.trim(), confidence };
+    } catch (error) {
+      return { page, text: '', confidence: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Degrees to turn an image before recognition. An image whose orientation cannot be detected is
+   * recognized as it is.
+   */
+  private async detectRotation(image: Buffer, filePath: string): Promise<number> {
+    if (!this.engine.detectOrientation) return 0;
+
+    try {
+      const orientation = await this.engine.detectOrientation(image);
+      return orientation && orientation.confidence >= MIN_ORIENTATION_CONFIDENCE ? orientation.rotation : 0;
+    } catch (error) {
+      console.log(`⚠️ Orientation detection failed for ${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Run a page or image once a concurrency slot is free
+   */
+  private async withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+    while (this.activePages >= this.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    this.activePages++;
+    try {
+      return await task();
+    } finally {
+      this.activePages--;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+/**
+ * Mean page confidence weighted by word count, so a blank page's confidence does not drag the document down
+ */
+function weightedConfidence(pages: OcrPageResult[]): number {
+  let words = 0;
+  let total = 0;
+  pages.forEach(page => {
+    const pageWords = page.text.split(/\s+/).filter(Boolean).length;
+    words += pageWords;
+    total += page.confidence * pageWords;
+  });
+  return words > 0 ? Math.round((total / words) * 10) / 10 : 0;
+}
+
+// Export singleton instance
+export const ocrPipeline = new OcrPipeline();
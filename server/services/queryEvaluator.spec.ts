@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { evaluateQuery, matchesField, FieldMetadata } from "./queryEvaluator";
+import { parseSearchQuery } from "./queryParser";
+import { KeywordIndex } from "./keywordIndex";
+
+const documents: Record<string, { text: string } & FieldMetadata> = {
+  a: {
+    text: "Proof of stake secures the network with validators.",
+    tags: ["Blockchain"],
+    fileType: ".pdf",
+    uploadDate: "2024-03-01",
+  },
+  b: {
+    text: "Proof of work secures the network with miners; stake is not involved.",
+    tags: ["blockchain"],
+    fileType: ".docx",
+    uploadDate: "2023-06-01",
+  },
+  c: {
+    text: "Neural networks are trained with gradient descent.",
+    tags: ["ml"],
+    fileType: ".pdf",
+    uploadDate: "2024-05-01",
+  },
+};
+
+const search = (query: string) => {
+  const index = new KeywordIndex();
+  Object.entries(documents).forEach(([key, doc]) => index.add(key, doc.text));
+
+  const matches = evaluateQuery(parseSearchQuery(query).root, {
+    index,
+    keys: new Set(Object.keys(documents)),
+    matchesField: (key, field) => matchesField(field, documents[key]),
+  });
+  return Array.from(matches).sort();
+};
+
+describe("evaluateQuery", () => {
+  it("should match phrases only when the words are adjacent", () => {
+    expect(search('"proof of stake"')).toEqual(["a"]);
+    expect(search("proof stake")).toEqual(["a", "b"]);
+  });
+
+  it("should combine AND, OR and NOT", () => {
+    expect(search("secures -miners")).toEqual(["a"]);
+    expect(search("validators OR gradient")).toEqual(["a", "c"]);
+    expect(search("network AND NOT (stake OR gradient)")).toEqual([]);
+    expect(search("(validators OR miners) NOT \"proof of work\"")).toEqual(["a"]);
+  });
+
+  it("should filter on tags, file type and upload date", () => {
+    expect(search("tag:blockchain")).toEqual(["a", "b"]);
+    expect(search("tag:blockchain type:pdf")).toEqual(["a"]);
+    expect(search("before:2024-01-01")).toEqual(["b"]);
+    expect(search("after:2024-01-01 -tag:ml")).toEqual(["a"]);
+  });
+});
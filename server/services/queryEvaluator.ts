@@ -0,0 +1,105 @@
+// Boolean evaluation of parsed search queries
+// Terms and phrases are looked up in a keyword index (phrases by checking term positions),
+// field clauses against document metadata. The result is the set of index keys that satisfy the query.
+
+import { FieldNode, QueryNode } from './queryParser';
+import { KeywordIndex } from './keywordIndex';
+import { analyze } from './textAnalyzer';
+
+export interface QueryTarget {
+  index: KeywordIndex;
+  keys: Set<string>;                                 // entries the query may match, e.g. after filters
+  matchesField: (key: string, field: FieldNode) => boolean;
+}
+
+// Metadata the field operators look at
+export interface FieldMetadata {
+  tags?: string[];
+  fileType?: string;
+  uploadDate?: Date | string;
+}
+
+/**
+ * Keys of the target entries that satisfy the query
+ */
+export function evaluateQuery(node: QueryNode, target: QueryTarget): Set<string> {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return matchText(node.value, target);
+
+    case 'field': {
+      const matches = new Set<string>();
+      target.keys.forEach(key => {
+        if (target.matchesField(key, node)) matches.add(key);
+      });
+      return matches;
+    }
+
+    case 'not': {
+      const excluded = evaluateQuery(node.child, target);
+      return new Set(Array.from(target.keys).filter(key => !excluded.has(key)));
+    }
+
+    case 'and': {
+      // Intersect starting from the smallest set
+      const sets = node.children.map(child => evaluateQuery(child, target)).sort((a, b) => a.size - b.size);
+      return new Set(Array.from(sets[0]).filter(key => sets.every(set => set.has(key))));
+    }
+
+    case 'or': {
+      const union = new Set<string>();
+      node.children.forEach(child => evaluateQuery(child, target).forEach(key => union.add(key)));
+      return union;
+    }
+  }
+}
+
+/**
+ * Whether document metadata satisfies a tag:, type:, before: or after: clause
+ */
+export function matchesField(field: FieldNode, metadata: FieldMetadata): boolean {
+  switch (field.field) {
+    case 'tag':
+      return (metadata.tags || []).some(tag => tag.toLowerCase() === field.value.toLowerCase());
+    case 'type':
+      return (metadata.fileType || '').toLowerCase() === field.value;
+    case 'before':
+    case 'after': {
+      if (!metadata.uploadDate) return false;
+      const uploaded = new Date(metadata.uploadDate).getTime();
+      const date = new Date(field.value).getTime();
+      return field.field === 'before' ? uploaded < date : uploaded > date;
+    }
+  }
+}
+
+/**
+ * Entries containing the text as a phrase. Text that analyzes to a single term is a plain term lookup,
+ * and text made only of stopwords matches everything since the index does not store stopwords.
+ */
+function matchText(text: string, target: QueryTarget): Set<string> {
+  const tokens = analyze(text);
+  if (tokens.length === 0) {
+    return new Set(target.keys);
+  }
+
+  const [first, ...rest] = tokens;
+  const candidates = target.index.getEntries(first.term).filter(key =>
+    target.keys.has(key) && rest.every(token => target.index.getPositions(token.term, key).length > 0)
+  );
+  if (rest.length === 0) {
+    return new Set(candidates);
+  }
+
+  // Every later term must sit at the same distance from the first term as in the phrase
+  return new Set(candidates.filter(key => {
+    const restPositions = rest.map(token => ({
+      offset: token.position - first.position,
+      positions: new Set(target.index.getPositions(token.term, key))
+    }));
+    return target.index.getPositions(first.term, key).some(start =>
+      restPositions.every(({ offset, positions }) => positions.has(start + offset))
+    );
+  }));
+}
@@ -0,0 +1,59 @@
+// LLM-generated query expansions for retrieval
+// Multi-query: paraphrases of the question, so passages worded differently still match one of them.
+// HyDE (Gao et al., 2022): a hypothetical answer passage, whose embedding sits closer to real answers
+// than the embedding of a short question does.
+
+import { LanguageModel } from './languageModel';
+
+export class QueryExpander {
+  constructor(private readonly languageModel: LanguageModel) {}
+
+  /**
+   * Alternative phrasings of the query, not including the query itself
+   */
+  async paraphrase(query: string, count: number): Promise<string[]> {
+    const response = await this.languageModel.complete([
+      {
+        role: 'system',
+        content: `You help a document search engine find passages that answer a question. ` +
+          `Write ${count} different search queries for the question, using different wording, synonyms and ` +
+          `likely terminology from the documents. Write one query per line with no numbering or commentary.`
+      },
+      { role: 'user', content: query }
+    ], { temperature: 0.7, maxTokens: 60 * count });
+
+    const seen = new Set([query.trim().toLowerCase()]);
+    const variants: string[] = [];
+
+    for (const line of response.split('\n')) {
+      const variant = line
+        .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+        .replace(/^["']|["']$/g, '')
+        .trim();
+      if (!variant || seen.has(variant.toLowerCase())) continue;
+
+      seen.add(variant.toLowerCase());
+      variants.push(variant);
+      if (variants.length >= count) break;
+    }
+
+    return variants;
+  }
+
+  /**
+   * A short passage that plausibly answers the query, written as if taken from a document
+   */
+  async hypotheticalAnswer(query: string): Promise<string> {
+    const response = await this.languageModel.complete([
+      {
+        role: 'system',
+        content: 'Write a short passage (3-5 sentences) that could appear in a document answering the question. ' +
+          'Write it in the style of a report or paper. It does not need to be factually correct; ' +
+          'it is only used to find similar passages. Respond with only the passage.'
+      },
+      { role: 'user', content: query }
+    ], { temperature: 0.7, maxTokens: 250 });
+
+    return response.trim();
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { QuerySyntaxError, parseSearchQuery } from "./queryParser";
+
+const syntaxError = (query: string) => {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail`);
+};
+
+describe("parseSearchQuery", () => {
+  it("should treat plain words as an unstructured AND query", () => {
+    const parsed = parseSearchQuery("machine learning");
+
+    expect(parsed.structured).toBe(false);
+    expect(parsed.text).toBe("machine learning");
+    expect(parsed.root).toEqual({
+      type: "and",
+      position: 0,
+      children: [
+        { type: "term", value: "machine", position: 0 },
+        { type: "term", value: "learning", position: 8 },
+      ],
+    });
+  });
+
+  it("should give AND precedence over OR and support grouping", () => {
+    const { root } = parseSearchQuery('"neural network" AND (pruning OR distillation) NOT draft');
+
+    expect(root).toMatchObject({
+      type: "and",
+      children: [
+        { type: "phrase", value: "neural network" },
+        { type: "or", children: [{ value: "pruning" }, { value: "distillation" }] },
+        { type: "not", child: { type: "term", value: "draft" } },
+      ],
+    });
+
+    expect(parseSearchQuery("a b OR c").root).toMatchObject({
+      type: "or",
+      children: [{ type: "and" }, { type: "term", value: "c" }],
+    });
+  });
+
+  it("should parse exclusions and field operators", () => {
+    const parsed = parseSearchQuery('-draft tag:"machine learning" type:PDF after:2024-01-01 e-mail');
+
+    expect(parsed.structured).toBe(true);
+    expect(parsed.text).toBe("e-mail");
+    expect(parsed.root).toMatchObject({
+      type: "and",
+      children: [
+        { type: "not", child: { value: "draft" } },
+        { type: "field", field: "tag", value: "machine learning" },
+        { type: "field", field: "type", value: ".pdf" },
+        { type: "field", field: "after", value: "2024-01-01" },
+        { type: "term", value: "e-mail" },
+      ],
+    });
+  });
+
+  it("should keep lower-case operator words and unknown fields as terms", () => {
+    const parsed = parseSearchQuery("rock and roll ratio:3");
+    expect(parsed.structured).toBe(false);
+    expect(parsed.text).toBe("rock and roll ratio:3");
+  });
+
+  it("should report syntax errors with their position", () => {
+    expect(syntaxError('budget "annual report').position).toBe(7);
+    expect(syntaxError("(budget OR forecast").position).toBe(0);
+    expect(syntaxError("budget AND").message).toBe("Expected a search term after AND (at position 7)");
+    expect(syntaxError("budget)").position).toBe(6);
+    expect(syntaxError("OR budget").position).toBe(0);
+    expect(syntaxError("report before:yesterday").position).toBe(14);
+    expect(syntaxError("report tag:").position).toBe(7);
+    expect(syntaxError("report - draft").position).toBe(7);
+  });
+
+  it("should return an empty result for blank queries", () => {
+    expect(parseSearchQuery("   ")).toEqual({ root: null, structured: false, text: "" });
+  });
+});
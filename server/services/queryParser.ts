@@ -0,0 +1,263 @@
+// Search query syntax
+// Parses queries such as  "neural network" AND (pruning OR distillation) -draft tag:ml type:pdf after:2024-01-01
+// into an AST. Words next to each other are ANDed; AND, OR and NOT must be upper case so ordinary
+// words are never mistaken for operators. Syntax errors carry the offset of the problem in the query.
+
+export type QueryField = 'tag' | 'type' | 'before' | 'after';
+
+export type QueryNode =
+  | { type: 'term'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; field: QueryField; value: string; position: number }
+  | { type: 'not'; child: QueryNode; position: number }
+  | { type: 'and'; children: QueryNode[]; position: number }
+  | { type: 'or'; children: QueryNode[]; position: number };
+
+export type FieldNode = Extract<QueryNode, { type: 'field' }>;
+
+export interface ParsedQuery {
+  root: QueryNode | null;  // null for an empty query
+  structured: boolean;     // uses any syntax beyond plain words
+  text: string;            // words and phrases the results should contain, for ranking and highlighting
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type TokenType = 'word' | 'phrase' | 'field' | 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  field?: QueryField;
+}
+
+const FIELDS: QueryField[] = ['tag', 'type', 'before', 'after'];
+const OPERATORS: Record<string, TokenType> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+/**
+ * Parse a search query into an AST
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return { root: null, structured: false, text: '' };
+  }
+
+  const root = new Parser(tokens).parse();
+  return {
+    root,
+    structured: tokens.some(token => token.type !== 'word'),
+    text: positiveText(root).join(' ')
+  };
+}
+
+/**
+ * Words and phrases outside NOT clauses
+ */
+function positiveText(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node.value];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveText);
+    default:
+      return [];
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const isBoundary = (char: string | undefined) => char === undefined || /[\s()"]/.test(char);
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readPhrase(input, i);
+      tokens.push({ type: 'phrase', value, position: i });
+      i = end;
+    } else if (char === '-' && (tokens.length === 0 || isBoundary(input[i - 1]))) {
+      if (isBoundary(input[i + 1]) && input[i + 1] !== '(' && input[i + 1] !== '"') {
+        throw new QuerySyntaxError("Expected a term after '-'", i);
+      }
+      tokens.push({ type: 'minus', value: char, position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !isBoundary(input[i])) i++;
+      const word = input.slice(start, i);
+
+      const fieldMatch = word.match(/^([a-z]+):(.*)$/i);
+      const field = fieldMatch && FIELDS.find(name => name === fieldMatch[1].toLowerCase());
+
+      if (field) {
+        let value = fieldMatch[2];
+        if (!value && input[i] === '"') {
+          const phrase = readPhrase(input, i);
+          value = phrase.value;
+          i = phrase.end;
+        }
+        if (!value) {
+          throw new QuerySyntaxError(`Missing value for ${field}:`, start);
+        }
+        tokens.push({ type: 'field', field, value: normalizeFieldValue(field, value, start + field.length + 1), position: start });
+      } else if (OPERATORS[word]) {
+        tokens.push({ type: OPERATORS[word], value: word, position: start });
+      } else {
+        tokens.push({ type: 'word', value: word, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readPhrase(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Unterminated phrase: missing closing quote', start);
+  }
+
+  const value = input.slice(start + 1, close).trim();
+  if (!value) {
+    throw new QuerySyntaxError('Empty phrase', start);
+  }
+  return { value, end: close + 1 };
+}
+
+function normalizeFieldValue(field: QueryField, value: string, position: number): string {
+  if (field === 'type') {
+    return (value.startsWith('.') ? value : `.${value}`).toLowerCase();
+  }
+  if ((field === 'before' || field === 'after') && isNaN(new Date(value).getTime())) {
+    throw new QuerySyntaxError(`Invalid date "${value}" for ${field}:, use a format such as 2024-01-31`, position);
+  }
+  return value;
+}
+
+// Recursive descent over the grammar
+//   or      := and ('OR' and)*
+//   and     := unary (['AND'] unary)*
+//   unary   := ('NOT' | '-') unary | primary
+//   primary := '(' or ')' | phrase | field | word
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(extra.type === 'rparen' ? "Unexpected ')'" : `Unexpected ${extra.value}`, extra.position);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      const operator = this.next();
+      this.expectOperand(operator);
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children, position: children[0].position };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const token = this.peek();
+      if (token?.type === 'and') {
+        this.next();
+        this.expectOperand(token);
+        children.push(this.parseUnary());
+      } else if (token && this.startsOperand(token)) {
+        children.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children, position: children[0].position };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not' || token?.type === 'minus') {
+      this.next();
+      this.expectOperand(token);
+      return { type: 'not', child: this.parseUnary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'word':
+        return { type: 'term', value: token.value, position: token.position };
+      case 'phrase':
+        return { type: 'phrase', value: token.value, position: token.position };
+      case 'field':
+        return { type: 'field', field: token.field, value: token.value, position: token.position };
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw new QuerySyntaxError('Empty parentheses', token.position);
+        }
+        const node = this.parseOr();
+        if (this.peek()?.type !== 'rparen') {
+          throw new QuerySyntaxError("Missing closing ')' for this '('", token.position);
+        }
+        this.next();
+        return node;
+      }
+      case 'rparen':
+        throw new QuerySyntaxError("Unexpected ')'", token.position);
+      default:
+        throw new QuerySyntaxError(`Expected a search term before ${token.value}`, token.position);
+    }
+  }
+
+  /**
+   * Operators need a term after them
+   */
+  private expectOperand(operator: Token): void {
+    const token = this.peek();
+    if (!token || !this.startsOperand(token)) {
+      const operatorName = operator.type === 'minus' ? "'-'" : operator.value;
+      throw new QuerySyntaxError(`Expected a search term after ${operatorName}`, operator.position);
+    }
+  }
+
+  private startsOperand(token: Token): boolean {
+    return ['word', 'phrase', 'field', 'lparen', 'not', 'minus'].includes(token.type);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { QueryRewriter } from "./queryRewriter";
+import { LanguageModel, LanguageModelMessage } from "./languageModel";
+
+class ScriptedModel implements LanguageModel {
+  readonly name = "scripted";
+  readonly model = "scripted";
+  prompts: LanguageModelMessage[][] = [];
+
+  constructor(private readonly reply: string | Error) {}
+
+  async complete(messages: LanguageModelMessage[]): Promise<string> {
+    this.prompts.push(messages);
+    if (this.reply instanceof Error) throw this.reply;
+    return this.reply;
+  }
+}
+
+const history = [
+  { role: "user" as const, content: "Compare proof of stake and proof of work consensus" },
+  { role: "assistant" as const, content: "1. Proof of stake ... 2. Proof of work ..." },
+];
+
+describe("QueryRewriter", () => {
+  it("should leave the message alone when there is no history", async () => {
+    const model = new ScriptedModel("should not be used");
+    const result = await new QueryRewriter(model).condense("What is proof of stake?");
+
+    expect(result).toEqual({
+      query: "What is proof of stake?",
+      originalQuery: "What is proof of stake?",
+      rewritten: false,
+      method: "none",
+    });
+    expect(model.prompts).toHaveLength(0);
+  });
+
+  it("should use the model's standalone query and send it the conversation", async () => {
+    const model = new ScriptedModel('Query: "energy consumption of proof of work"');
+    const result = await new QueryRewriter(model).condense("what about the second one's energy use?", history);
+
+    expect(result.query).toBe("energy consumption of proof of work");
+    expect(result.rewritten).toBe(true);
+    expect(result.method).toBe("llm");
+
+    const prompt = model.prompts[0].map((m) => m.content).join("\n");
+    expect(prompt).toContain("User: Compare proof of stake");
+    expect(prompt).toContain("Last message: what about the second one's energy use?");
+  });
+
+  it("should fall back to carrying terms from the previous question when the model fails", async () => {
+    const result = await new QueryRewriter(new ScriptedModel(new Error("timeout"))).condense(
+      "what about the second one?",
+      history,
+    );
+
+    expect(result.method).toBe("heuristic");
+    expect(result.query).toBe("Compare proof stake work consensus what about the second one?");
+  });
+
+  it("should keep standalone follow-ups unchanged without a model", async () => {
+    const result = await new QueryRewriter(null).condense("How are validators rewarded in Ethereum?", history);
+
+    expect(result.rewritten).toBe(false);
+    expect(result.query).toBe("How are validators rewarded in Ethereum?");
+  });
+});
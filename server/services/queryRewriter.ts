@@ -0,0 +1,146 @@
+// Conversational query condensation
+// Follow-ups such as "what about the second one?" make poor search queries on their own, so the latest
+// turn and the chat history are condensed into a standalone query before retrieval.
+
+import { LanguageModel, getDefaultLanguageModel } from './languageModel';
+import { analyze, STOPWORDS } from './textAnalyzer';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface QueryRewriteResult {
+  query: string;                          // standalone query to retrieve with
+  originalQuery: string;
+  rewritten: boolean;
+  method: 'none' | 'llm' | 'heuristic';
+}
+
+export interface QueryRewriterOptions {
+  maxHistoryTurns?: number;
+  maxTurnChars?: number;
+}
+
+// Words that usually point back at something said earlier
+const REFERENCE_WORDS = new Set([
+  'it', 'its', 'this', 'that', 'these', 'those', 'they', 'them', 'their', 'he', 'she', 'him', 'her',
+  'one', 'ones', 'former', 'latter', 'first', 'second', 'third', 'last', 'previous', 'above', 'same',
+  'more', 'else', 'also', 'too', 'other', 'another'
+]);
+
+export class QueryRewriter {
+  private readonly maxHistoryTurns: number;
+  private readonly maxTurnChars: number;
+
+  constructor(
+    private readonly languageModel: LanguageModel | null = getDefaultLanguageModel(),
+    options: QueryRewriterOptions = {}
+  ) {
+    this.maxHistoryTurns = options.maxHistoryTurns ?? 6;
+    this.maxTurnChars = options.maxTurnChars ?? 1000;
+  }
+
+  /**
+   * Turn the latest message plus history into a standalone search query.
+   * Uses the language model when one is configured and falls back to a keyword heuristic.
+   */
+  async condense(message: string, history: ConversationTurn[] = []): Promise<QueryRewriteResult> {
+    const recentHistory = history
+      .filter(turn => turn.content && turn.content.trim().length > 0)
+      .slice(-this.maxHistoryTurns);
+
+    if (recentHistory.length === 0) {
+      return { query: message, originalQuery: message, rewritten: false, method: 'none' };
+    }
+
+    if (this.languageModel) {
+      try {
+        const query = await this.condenseWithModel(message, recentHistory);
+        if (query) {
+          console.log(`Rewrote query "${message}" as "${query}"`);
+          return { query, originalQuery: message, rewritten: query !== message, method: 'llm' };
+        }
+      } catch (error) {
+        console.warn(`⚠️  Query rewriting failed, using heuristic: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const query = this.condenseWithHeuristic(message, recentHistory);
+    return { query, originalQuery: message, rewritten: query !== message, method: 'heuristic' };
+  }
+
+  private async condenseWithModel(message: string, history: ConversationTurn[]): Promise<string> {
+    const transcript = history
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${this.truncate(turn.content)}`)
+      .join('\n');
+
+    const response = await this.languageModel.complete([
+      {
+        role: 'system',
+        content: 'You rewrite the last message of a conversation into a standalone search query for a document search engine. ' +
+          'Resolve pronouns and references such as "it", "that one" or "the second one" using the conversation. ' +
+          'Keep the names, terms and constraints the user cares about. ' +
+          'If the message is already standalone, return it unchanged. Respond with only the query.'
+      },
+      {
+        role: 'user',
+        content: `Conversation:\n${transcript}\n\nLast message: ${message}\n\nStandalone query:`
+      }
+    ], { temperature: 0, maxTokens: 100 });
+
+    return this.cleanModelOutput(response);
+  }
+
+  /**
+   * Strip labels, quotes and extra lines models sometimes wrap around the query
+   */
+  private cleanModelOutput(output: string): string {
+    const firstLine = output.trim().split('\n')[0] || '';
+    return firstLine
+      .replace(/^(standalone\s+)?(search\s+)?query\s*:\s*/i, '')
+      .replace(/^["'`]+|["'`]+$/g, '')
+      .trim();
+  }
+
+  /**
+   * Without a model, carry the key terms of the previous user turn into follow-ups that
+   * refer back to it or are too short to search on
+   */
+  private condenseWithHeuristic(message: string, history: ConversationTurn[]): string {
+    const messageTokens = analyze(message, { keepStopwords: true });
+    const contentTerms = messageTokens.filter(token => !STOPWORDS.has(token.original.toLowerCase()));
+    const refersBack = messageTokens.some(token => REFERENCE_WORDS.has(token.original.toLowerCase()));
+
+    if (!refersBack && contentTerms.length >= 3) {
+      return message;
+    }
+
+    const previousUserTurn = [...history].reverse().find(turn => turn.role === 'user');
+    if (!previousUserTurn) {
+      return message;
+    }
+
+    const messageTerms = new Set(messageTokens.map(token => token.term));
+    const carriedTerms: string[] = [];
+    const seen = new Set<string>();
+
+    for (const token of analyze(previousUserTurn.content)) {
+      if (messageTerms.has(token.term) || seen.has(token.term) || REFERENCE_WORDS.has(token.original.toLowerCase())) {
+        continue;
+      }
+      seen.add(token.term);
+      carriedTerms.push(token.original);
+      if (carriedTerms.length >= 8) break;
+    }
+
+    return carriedTerms.length > 0 ? `${carriedTerms.join(' ')} ${message}` : message;
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.maxTurnChars ? `${text.substring(0, this.maxTurnChars)}...` : text;
+  }
+}
+
+// Export singleton instance
+export const queryRewriter = new QueryRewriter();
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { Reindexer } from "./reindexer";
+import { IndexedDocument, SemanticSearchService } from "./semanticSearch";
+import { InMemoryVectorStore } from "./vectorStore";
+import { HashingEmbeddingProvider } from "./embeddingProvider";
+import { DocumentProcessor } from "./documentProcessor";
+
+const content = Array.from({ length: 120 }, (_, i) => `word${i}`).join(" ");
+
+const documentChunkedWith = (id: string, chunkSize: number | null): IndexedDocument => {
+  const { chunks, chunkingVersion } = DocumentProcessor.rechunk(content, { chunkSize: chunkSize ?? 40, overlapSize: 10, chunkingStrategy: "words" });
+  return {
+    id,
+    name: `Document ${id}`,
+    content,
+    chunks,
+    metadata: {
+      fileType: ".txt",
+      extractedAt: new Date("2024-01-01"),
+      ...(chunkSize !== null && { chunkingVersion }),
+    } as IndexedDocument["metadata"],
+    summary: "",
+    tags: [],
+  };
+};
+
+const createService = () =>
+  new SemanticSearchService({
+    store: new InMemoryVectorStore(),
+    embeddingProvider: new HashingEmbeddingProvider(),
+    syncFromDatabase: false,
+    languageModel: null,
+    processing: { chunkSize: 60, overlapSize: 10, chunkingStrategy: "words" },
+  });
+
+describe("Reindexer", () => {
+  it("should report documents chunked with other options or no recorded version as stale", async () => {
+    const service = createService();
+    await service.indexDocument(documentChunkedWith("current", 60));
+    await service.indexDocument(documentChunkedWith("old-options", 40));
+    await service.indexDocument(documentChunkedWith("legacy", null));
+
+    const stale = await service.getStaleDocuments();
+    expect(stale.map((d) => d.id).sort()).toEqual(["legacy", "old-options"]);
+    expect(service.getPipelineVersion()).toBe("v3:words,size=60,overlap=10,tokens=4000,encoding=cl100k_base;embedding=feature-hashing-v1-512");
+  });
+
+  it("should re-chunk and re-embed stale documents and save them", async () => {
+    const service = createService();
+    await service.indexDocument(documentChunkedWith("old-options", 40));
+    const saved: IndexedDocument[] = [];
+    const reindexer = new Reindexer(service, { persist: async (document) => void saved.push(document) });
+
+    await reindexer.start();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].chunks).toHaveLength(3);
+    expect(saved[0].metadata.pipelineVersion).toBe(service.getPipelineVersion());
+    expect(service.getIndexStats().totalEmbeddings).toBe(3);
+
+    const progress = await reindexer.getProgress();
+    expect(progress).toMatchObject({ status: "completed", total: 1, processed: 1, failed: 0, staleDocuments: 0 });
+    expect(progress.finishedAt).toBeDefined();
+  });
+
+  it("should record documents that fail and carry on with the rest", async () => {
+    const service = createService();
+    await service.indexDocument(documentChunkedWith("a", 40));
+    await service.indexDocument(documentChunkedWith("b", 40));
+    const reindexer = new Reindexer(service, {
+      persist: async (document) => {
+        if (document.id === "a") throw new Error("database unavailable");
+      },
+    });
+
+    await reindexer.start();
+
+    const progress = await reindexer.getProgress();
+    expect(progress).toMatchObject({ status: "completed", total: 2, processed: 2, failed: 1 });
+    expect(progress.errors).toEqual([{ documentId: "a", documentName: "Document a", error: "database unavailable" }]);
+  });
+
+  it("should not start a second run while one is in progress", async () => {
+    const service = createService();
+    await service.indexDocument(documentChunkedWith("a", 40));
+    const reindexer = new Reindexer(service, { persist: async () => {} });
+
+    const first = reindexer.start();
+    expect(reindexer.start()).toBe(first);
+    expect(reindexer.isRunning()).toBe(true);
+    await first;
+    expect(reindexer.isRunning()).toBe(false);
+  });
+});
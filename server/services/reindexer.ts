@@ -0,0 +1,121 @@
+// Background reindexing of stale documents
+// Documents are stamped with the pipeline version (chunking options and embedding model) they were
+// indexed with. When either changes, this job re-chunks and re-embeds the stale documents one at a
+// time, saving the new chunks back to the database, and keeps progress for the admin endpoint.
+
+import { IndexedDocument, SemanticSearchService, semanticSearchService } from './semanticSearch';
+import { updateDocumentContent } from '../database';
+import { ReindexProgress } from '../../shared/api';
+
+export interface ReindexerOptions {
+  persist?: (document: IndexedDocument) => Promise<void>; // save reindexed chunks (default: database)
+}
+
+/**
+ * Write reindexed chunks back to the documents table so they survive a database resync
+ */
+async function saveToDatabase(document: IndexedDocument): Promise<void> {
+  const id = Number(document.id);
+  if (!Number.isInteger(id)) return;
+  await updateDocumentContent(id, document.content, document.summary, document.chunks, document.metadata, document.tags);
+}
+
+export class Reindexer {
+  private readonly persist: (document: IndexedDocument) => Promise<void>;
+  private progress: Omit<ReindexProgress, 'staleDocuments'>;
+  private run: Promise<void> | null = null;
+
+  constructor(private readonly search: SemanticSearchService, options: ReindexerOptions = {}) {
+    this.persist = options.persist || saveToDatabase;
+    this.progress = {
+      status: 'idle',
+      pipelineVersion: search.getPipelineVersion(),
+      total: 0,
+      processed: 0,
+      failed: 0,
+      errors: []
+    };
+  }
+
+  /**
+   * Start reindexing stale documents in the background. While a run is in progress this returns it
+   * instead of starting another one.
+   */
+  start(): Promise<void> {
+    if (!this.run) {
+      this.run = this.reindexStaleDocuments().finally(() => {
+        this.run = null;
+      });
+    }
+    return this.run;
+  }
+
+  isRunning(): boolean {
+    return this.run !== null;
+  }
+
+  /**
+   * Progress of the current or last run, with the number of documents that are still stale
+   */
+  async getProgress(): Promise<ReindexProgress> {
+    const staleDocuments = (await this.search.getStaleDocuments()).length;
+    return { ...this.progress, errors: [...this.progress.errors], staleDocuments };
+  }
+
+  private async reindexStaleDocuments(): Promise<void> {
+    this.progress = {
+      status: 'running',
+      pipelineVersion: this.search.getPipelineVersion(),
+      total: 0,
+      processed: 0,
+      failed: 0,
+      startedAt: new Date().toISOString(),
+      errors: []
+    };
+
+    try {
+      const staleDocuments = await this.search.getStaleDocuments();
+      this.progress.total = staleDocuments.length;
+      if (staleDocuments.length > 0) {
+        console.log(`Reindexing ${staleDocuments.length} documents for pipeline ${this.progress.pipelineVersion}`);
+      }
+
+      for (const document of staleDocuments) {
+        this.progress.currentDocument = document.name;
+        try {
+          const reindexed = await this.search.reindexDocument(document.id);
+          if (reindexed) {
+            await this.persist(reindexed);
+          }
+        } catch (error) {
+          this.progress.failed++;
+          this.progress.errors.push({
+            documentId: document.id,
+            documentName: document.name,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          console.error(`Failed to reindex document ${document.name}:`, error);
+        }
+        this.progress.processed++;
+
+        // Let queued requests run between documents
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      this.progress.status = 'completed';
+      if (staleDocuments.length > 0) {
+        console.log(`Reindex completed: ${this.progress.processed - this.progress.failed}/${this.progress.total} documents updated`);
+      }
+    } catch (error) {
+      this.progress.status = 'failed';
+      this.progress.error = `Reindex failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error('Reindex failed:', error);
+    } finally {
+      this.progress.currentDocument = undefined;
+      this.progress.finishedAt = new Date().toISOString();
+    }
+  }
+}
+
+// Export singleton instance
+export const reindexer = new Reindexer(semanticSearchService);
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { LexicalReranker, LlmReranker, createReranker, rerankResults } from "./reranker";
+import { LanguageModel } from "./languageModel";
+import { SearchResult } from "./semanticSearch";
+
+const result = (chunkId: string, content: string, similarity = 0.5): SearchResult => ({
+  documentId: "1",
+  chunkId,
+  content,
+  similarity,
+  metadata: { documentName: "Notes", tags: [], wordCount: content.split(/\s+/).length },
+});
+
+class ScriptedModel implements LanguageModel {
+  readonly name = "scripted";
+  readonly model = "scripted";
+  prompts: string[] = [];
+
+  constructor(private readonly reply: string) {}
+
+  async complete(messages: Array<{ content: string }>): Promise<string> {
+    this.prompts.push(messages.map((m) => m.content).join("\n"));
+    return this.reply;
+  }
+}
+
+describe("LexicalReranker", () => {
+  it("should prefer chunks containing the query phrase over scattered terms", async () => {
+    const candidates = [
+      result("scattered", "The gradient was steep. Later, the descent into the valley began.", 0.9),
+      result("phrase", "Models are trained with stochastic gradient descent on mini-batches.", 0.6),
+      result("none", "Blockchain consensus relies on proof of stake.", 0.8),
+    ];
+
+    const reranked = await rerankResults(new LexicalReranker(), "gradient descent", candidates);
+    expect(reranked.map((r) => r.chunkId)).toEqual(["phrase", "scattered", "none"]);
+  });
+
+  it("should weight rare query terms above common ones", async () => {
+    const candidates = [
+      result("common", "The network stores data in every block of the network."),
+      result("rare", "A merkle tree summarizes the block."),
+      result("filler", "The network is decentralized."),
+    ];
+
+    const reranked = await rerankResults(new LexicalReranker(), "merkle network", candidates);
+    expect(reranked[0].chunkId).toBe("rare");
+  });
+
+  it("should record the rerank position and score on each result", async () => {
+    const reranked = await rerankResults(new LexicalReranker(), "proof of stake", [
+      result("a", "Proof of work wastes energy."),
+      result("b", "Proof of stake is efficient."),
+    ]);
+
+    expect(reranked[0].chunkId).toBe("b");
+    expect(reranked[0].ranking?.rerank?.rank).toBe(1);
+    expect(reranked[1].ranking?.rerank?.rank).toBe(2);
+    expect(reranked[0].ranking!.rerank!.score).toBeGreaterThan(reranked[1].ranking!.rerank!.score);
+  });
+});
+
+describe("LlmReranker", () => {
+  it("should reorder candidates by the model's scores", async () => {
+    const model = new ScriptedModel("[2, 9, 5]");
+    const reranked = await rerankResults(new LlmReranker(model), "what is staking?", [
+      result("a", "first passage"),
+      result("b", "second passage"),
+      result("c", "third passage"),
+    ]);
+
+    expect(reranked.map((r) => r.chunkId)).toEqual(["b", "c", "a"]);
+    expect(reranked[0].ranking?.rerank?.score).toBeCloseTo(0.9);
+    expect(model.prompts[0]).toContain("what is staking?");
+    expect(model.prompts[0]).toContain("[3] (Notes)");
+  });
+
+  it("should reject replies that do not score every passage", async () => {
+    const reranker = new LlmReranker(new ScriptedModel("Scores: [7]"));
+    await expect(
+      reranker.score("query", [result("a", "one"), result("b", "two")]),
+    ).rejects.toThrow("Expected 2 numeric scores");
+  });
+});
+
+describe("createReranker", () => {
+  it("should fall back to the lexical reranker without a language model", () => {
+    expect(createReranker("llm", null)?.name).toBe("lexical");
+    expect(createReranker("none", null)).toBeNull();
+  });
+});
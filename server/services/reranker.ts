@@ -0,0 +1,234 @@
+// Second-stage rerankers for retrieved chunks
+// The first stage (hybrid search) optimizes recall over the whole library; a reranker looks at the
+// query and each of the top candidates together and reorders them for precision.
+
+import { SearchResult } from './semanticSearch';
+import { analyze, analyzeTerms, AnalyzedToken } from './textAnalyzer';
+import { LanguageModel, getDefaultLanguageModel } from './languageModel';
+import { RerankMethod } from '../../shared/api';
+
+export interface Reranker {
+  readonly name: string;
+  /** Relevance score for each candidate, in candidate order; higher is more relevant */
+  score(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+/**
+ * Reorder candidates by reranker score, recording the new rank and score on each result
+ */
+export async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  candidates: SearchResult[]
+): Promise<SearchResult[]> {
+  if (candidates.length === 0) return candidates;
+
+  const scores = await reranker.score(query, candidates);
+  if (scores.length !== candidates.length) {
+    throw new Error(`${reranker.name} reranker returned ${scores.length} scores for ${candidates.length} candidates`);
+  }
+
+  return candidates
+    .map((result, index) => ({ result, score: scores[index], index }))
+    // Ties keep the first-stage order
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ result, score }, index) => ({
+      ...result,
+      ranking: {
+        ...result.ranking,
+        fusedScore: result.ranking?.fusedScore ?? result.similarity,
+        rerank: { rank: index + 1, score }
+      }
+    }));
+}
+
+/**
+ * Local cross-scorer over query/chunk pairs: how much of the query's weight the chunk covers,
+ * how close together the matched terms are, and whether query phrases appear verbatim.
+ * The first-stage score is kept as a weak prior so ties between lexical signals fall back to retrieval.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  constructor(
+    private readonly weights = { coverage: 0.5, proximity: 0.2, phrase: 0.2, prior: 0.1 }
+  ) {}
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const queryTokens = analyze(query);
+    const queryTerms = Array.from(new Set(queryTokens.map(token => token.term)));
+    if (queryTerms.length === 0) {
+      return candidates.map(candidate => candidate.similarity);
+    }
+
+    const candidateTokens = candidates.map(candidate => analyze(candidate.content));
+
+    // Term weights from the candidate set itself, so terms every candidate shares count for little
+    const idf = new Map<string, number>();
+    queryTerms.forEach(term => {
+      const df = candidateTokens.filter(tokens => tokens.some(token => token.term === term)).length;
+      idf.set(term, Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5)));
+    });
+    const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term), 0);
+
+    return candidates.map((candidate, index) => {
+      const positions = this.positionsByTerm(candidateTokens[index], queryTerms);
+      const matched = queryTerms.filter(term => positions.has(term));
+
+      const coverage = totalWeight > 0
+        ? matched.reduce((sum, term) => sum + idf.get(term), 0) / totalWeight
+        : 0;
+      const proximity = this.proximity(positions, matched);
+      const phrase = this.phraseScore(queryTokens, positions);
+
+      return this.weights.coverage * coverage +
+        this.weights.proximity * proximity +
+        this.weights.phrase * phrase +
+        this.weights.prior * Math.max(0, Math.min(1, candidate.similarity));
+    });
+  }
+
+  private positionsByTerm(tokens: AnalyzedToken[], queryTerms: string[]): Map<string, number[]> {
+    const wanted = new Set(queryTerms);
+    const positions = new Map<string, number[]>();
+    tokens.forEach(token => {
+      if (!wanted.has(token.term)) return;
+      const list = positions.get(token.term) || [];
+      list.push(token.position);
+      positions.set(token.term, list);
+    });
+    return positions;
+  }
+
+  /**
+   * Matched terms divided by the width of the smallest window containing all of them
+   */
+  private proximity(positions: Map<string, number[]>, matched: string[]): number {
+    if (matched.length === 0) return 0;
+    if (matched.length === 1) return 1;
+
+    const occurrences = matched
+      .flatMap(term => positions.get(term).map(position => ({ term, position })))
+      .sort((a, b) => a.position - b.position);
+
+    const counts = new Map<string, number>();
+    let covered = 0;
+    let smallest = Infinity;
+    let left = 0;
+
+    for (let right = 0; right < occurrences.length; right++) {
+      const term = occurrences[right].term;
+      counts.set(term, (counts.get(term) || 0) + 1);
+      if (counts.get(term) === 1) covered++;
+
+      while (covered === matched.length) {
+        smallest = Math.min(smallest, occurrences[right].position - occurrences[left].position + 1);
+        const leftTerm = occurrences[left].term;
+        counts.set(leftTerm, counts.get(leftTerm) - 1);
+        if (counts.get(leftTerm) === 0) covered--;
+        left++;
+      }
+    }
+
+    return matched.length / smallest;
+  }
+
+  /**
+   * Fraction of adjacent query term pairs that appear with the same spacing in the chunk
+   */
+  private phraseScore(queryTokens: AnalyzedToken[], positions: Map<string, number[]>): number {
+    if (queryTokens.length < 2) return 0;
+
+    let found = 0;
+    for (let i = 0; i < queryTokens.length - 1; i++) {
+      const first = positions.get(queryTokens[i].term);
+      const second = positions.get(queryTokens[i + 1].term);
+      if (!first || !second) continue;
+
+      const gap = queryTokens[i + 1].position - queryTokens[i].position;
+      const secondPositions = new Set(second);
+      if (first.some(position => secondPositions.has(position + gap))) {
+        found++;
+      }
+    }
+
+    return found / (queryTokens.length - 1);
+  }
+}
+
+/**
+ * Ask a language model to grade each passage's relevance to the query on a 0-10 scale
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+  private static readonly MAX_PASSAGE_CHARS = 800;
+
+  constructor(private readonly languageModel: LanguageModel) {}
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const passages = candidates
+      .map((candidate, index) =>
+        `[${index + 1}] (${candidate.metadata.documentName})\n${candidate.content.substring(0, LlmReranker.MAX_PASSAGE_CHARS)}`
+      )
+      .join('\n\n');
+
+    const response = await this.languageModel.complete([
+      {
+        role: 'system',
+        content: 'You judge how well passages answer a search query. ' +
+          'Score each passage from 0 (irrelevant) to 10 (directly answers the query). ' +
+          'Respond with only a JSON array of numbers, one score per passage, in passage order.'
+      },
+      {
+        role: 'user',
+        content: `Query: ${query}\n\nPassages:\n\n${passages}`
+      }
+    ], { temperature: 0, maxTokens: 10 + candidates.length * 6 });
+
+    return this.parseScores(response, candidates.length);
+  }
+
+  private parseScores(response: string, expected: number): number[] {
+    const match = response.match(/\[[\s\S]*?\]/);
+    if (!match) {
+      throw new Error(`Could not find a score list in reranker response: ${response.substring(0, 200)}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(match[0]);
+    } catch {
+      throw new Error(`Invalid score list in reranker response: ${match[0].substring(0, 200)}`);
+    }
+
+    if (!Array.isArray(parsed) || parsed.length !== expected || parsed.some(score => typeof score !== 'number')) {
+      throw new Error(`Expected ${expected} numeric scores from reranker, got: ${match[0].substring(0, 200)}`);
+    }
+
+    return parsed.map(score => Math.max(0, Math.min(10, score)) / 10);
+  }
+}
+
+/**
+ * Create a reranker for the given method, or null for 'none'.
+ * The LLM judge needs an API key; without one the lexical scorer is used instead.
+ */
+export function createReranker(
+  method: RerankMethod,
+  languageModel: LanguageModel | null = getDefaultLanguageModel()
+): Reranker | null {
+  switch (method) {
+    case 'none':
+      return null;
+    case 'lexical':
+      return new LexicalReranker();
+    case 'llm':
+      if (!languageModel) {
+        console.warn('⚠️  No language model configured for LLM reranking. Falling back to the lexical reranker.');
+        return new LexicalReranker();
+      }
+      return new LlmReranker(languageModel);
+    default:
+      throw new Error(`Unknown reranker: ${method}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { rtfToBlocks } from "./rtfParser";
+
+describe("rtfToBlocks", () => {
+  it("should read headings, paragraphs, lists and table rows and skip destinations", () => {
+    const rtf = String.raw`{\rtf1\ansi\ansicpg1252\deff0{\fonttbl{\f0 Calibri;}{\f1 Symbol;}}
+{\stylesheet{\s0 Normal;}{\s1 heading 1;}{\s2 heading 2;}}
+{\info{\title Internal title}}{\header Page header}
+\pard\plain\s1 Project Plan\par
+\pard\plain\s2\outlinelevel1 Scope\par
+\pard\plain Caf\'e9 opens at 9\u8212\'97ten.\par
+{\listtext\pard\plain\f1 \'b7\tab}\pard\plain\ls1\ilvl0 First item\par
+{\listtext\pard\plain 2.\tab}\pard\plain\ls2\ilvl1 Second item\par
+\trowd\cellx1000\cellx2000\pard\intbl Name\cell Value\cell\row
+\pard Closing \{braces\}\par
+}`;
+
+    expect(rtfToBlocks(rtf)).toEqual([
+      { type: "heading", text: "Project Plan", level: 1 },
+      { type: "heading", text: "Scope", level: 2 },
+      { type: "paragraph", text: "Café opens at 9—ten." },
+      { type: "list-item", text: "First item", level: 1, marker: "-" },
+      { type: "list-item", text: "Second item", level: 2, marker: "2." },
+      { type: "table-row", text: "Name | Value" },
+      { type: "paragraph", text: "Closing {braces}" },
+    ]);
+  });
+
+  it("should keep hyperlink fields as links", () => {
+    const rtf = String.raw`{\rtf1\ansi See {\field{\*\fldinst{HYPERLINK "https://example.com/plan"}}{\fldrslt{\ul the plan}}} today.\par}`;
+
+    expect(rtfToBlocks(rtf)).toEqual([
+      { type: "paragraph", text: "See the plan today.", links: [{ start: 4, end: 12, url: "https://example.com/plan" }] },
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+// RTF documents
+// A reader for the parts of RTF that carry text and structure: paragraphs, headings (outline levels and
+// "heading N" styles), list items, table rows and hyperlink fields. Fonts, colours, pictures, headers,
+// footers and other destinations are skipped. Characters are decoded from \uN escapes and from \'hh
+// escapes in the document's ANSI code page.
+
+import { LinkSpan, TextBlock, normalizeInline } from './textStructure';
+
+interface GroupState {
+  skip: boolean;           // inside a destination whose text is not content
+  target: 'text' | 'field-instruction' | 'list-marker';  // where the group's characters go
+  unicodeSkip: number;     // \ucN: fallback characters that follow each \uN
+  destination?: string;    // the group's own destination control word, for the ones that are read specially
+  outlineLevel?: number;   // \outlinelevelN of the current paragraph
+  style?: number;          // \sN of the current paragraph
+  listLevel?: number;      // \ilvlN of the current paragraph, when it belongs to a list (\lsN)
+  inTable: boolean;        // \intbl
+}
+
+// Destinations whose text is metadata, layout or embedded objects rather than document content
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf', 'footer',
+  'footerl', 'footerr', 'footerf', 'footnote', 'annotation', 'xmlnstbl', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'pgdsctbl'
+]);
+const SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  emspace: ' ', enspace: ' ', qmspace: ' ', tab: ' ', line: ' '
+};
+const PARAGRAPH_BREAKS = new Set(['par', 'sect', 'page']);
+// Multi-byte ANSI code pages under the names TextDecoder knows them by
+const CODE_PAGE_LABELS: Record<number, string> = { 932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5' };
+
+/**
+ * Convert RTF into blocks
+ */
+export function rtfToBlocks(rtf: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const headingStyles = readHeadingStyles(rtf);
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, target: 'text', unicodeSkip: 1, inTable: false };
+  let decoder = new TextDecoder('windows-1252');
+  let bytes: number[] = [];
+  let pendingSkip = 0;      // fallback characters still to drop after a \uN
+  let starred = false;      // \* seen: the next destination may be skipped if not understood
+
+  let text = '';
+  let links: LinkSpan[] = [];
+  let listMarker: string | null = null;
+  let row: string[] = [];
+  let fieldInstruction = '';
+  let fieldLink: { url: string; start: number } | null = null;
+
+  const emitBytes = () => {
+    if (bytes.length === 0) return;
+    append(decoder.decode(new Uint8Array(bytes)));
+    bytes = [];
+  };
+
+  const append = (value: string) => {
+    if (state.skip) return;
+    if (state.target === 'field-instruction') fieldInstruction += value;
+    else if (state.target === 'list-marker') listMarker = (listMarker || '') + value;
+    else text += value;
+  };
+
+  const endParagraph = () => {
+    const { text: paragraph, links: paragraphLinks } = normalizeInline(text, links);
+    text = '';
+    links = [];
+    const marker = listMarker?.trim();
+    listMarker = null;
+    if (!paragraph) return;
+
+    const headingLevel = state.outlineLevel !== undefined && state.outlineLevel < 9
+      ? state.outlineLevel + 1
+      : state.style !== undefined ? headingStyles.get(state.style) : undefined;
+    const details = paragraphLinks.length > 0 ? { links: paragraphLinks } : {};
+
+    if (headingLevel) {
+      blocks.push({ type: 'heading', text: paragraph, level: Math.min(headingLevel, 6), ...details });
+    } else if (marker !== undefined || state.listLevel !== undefined) {
+      const ordered = marker?.match(/^\(?(\d{1,3}|[a-z])[.)]$/i);
+      blocks.push({ type: 'list-item', text: paragraph, level: (state.listLevel ?? 0) + 1, marker: ordered ? `${ordered[1]}.` : '-', ...details });
+    } else {
+      blocks.push({ type: 'paragraph', text: paragraph, ...details });
+    }
+  };
+
+  const tokens = rtf.matchAll(/\\([a-zA-Z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|[\r\n]+|[^\\{}\r\n]+/g);
+  for (const token of tokens) {
+    const [raw, word, parameter, hex, symbol, brace] = token;
+
+    if (hex !== undefined) {
+      if (pendingSkip > 0) pendingSkip--;
+      else bytes.push(parseInt(hex, 16));
+      continue;
+    }
+    emitBytes();
+
+    if (brace === '{') {
+      stack.push(state);
+      state = { ...state, destination: undefined };
+      starred = false;
+      pendingSkip = 0;
+      continue;
+    }
+
+    if (brace === '}') {
+      if (state.destination === 'fldrslt' && fieldLink && fieldLink.start >= 0 && text.length > fieldLink.start) {
+        links.push({ start: fieldLink.start, end: text.length, url: fieldLink.url });
+      }
+      if (state.destination === 'fldinst') {
+        const url = fieldInstruction.match(/HYPERLINK\s+(?:\\l\s+)?"([^"]+)"/i)?.[1];
+        fieldLink = url ? { url, start: -1 } : null;
+        fieldInstruction = '';
+      }
+      if (state.destination === 'field') fieldLink = null;
+      // Paragraph formatting set inside a group ends with it, but a paragraph in progress keeps its own
+      const closed = state;
+      state = stack.pop() || state;
+      if (!closed.skip && closed.destination === undefined && text) {
+        state = { ...state, outlineLevel: closed.outlineLevel, style: closed.style, listLevel: closed.listLevel, inTable: closed.inTable };
+      }
+      pendingSkip = 0;
+      continue;
+    }
+
+    if (symbol !== undefined) {
+      if (symbol === '*') {
+        starred = true;
+      } else if (symbol === '~') {
+        append(' ');
+      } else if (symbol === '_') {
+        append('-');
+      } else if (symbol === '\\' || symbol === '{' || symbol === '}') {
+        append(symbol);
+      }
+      // \- (optional hyphen) and \| or \: (index and formula marks) have no text
+      continue;
+    }
+
+    if (word !== undefined) {
+      const value = parameter === undefined ? undefined : parseInt(parameter, 10);
+
+      if (word === 'ansicpg' && value) {
+        decoder = createDecoder(value);
+      } else if (word === 'fldinst') {
+        state.destination = word;
+        state.target = 'field-instruction';
+      } else if (word === 'listtext' || word === 'pntext') {
+        state.destination = 'listtext';
+        state.target = 'list-marker';
+      } else if (word === 'field' || word === 'fldrslt') {
+        state.destination = word;
+        if (word === 'fldrslt' && fieldLink) fieldLink.start = text.length;
+      } else if (SKIPPED_DESTINATIONS.has(word) || word === 'stylesheet' || starred) {
+        state.skip = true;
+      } else if (word === 'u' && value !== undefined) {
+        append(String.fromCharCode(value < 0 ? value + 65536 : value));
+        pendingSkip = state.unicodeSkip;
+      } else if (word === 'uc' && value !== undefined) {
+        state.unicodeSkip = value;
+      } else if (PARAGRAPH_BREAKS.has(word)) {
+        if (state.inTable) append(' ');
+        else if (!state.skip && state.target === 'text') endParagraph();
+      } else if (word === 'cell' || word === 'nestcell') {
+        row.push(normalizeInline(text).text);
+        text = '';
+        links = [];
+      } else if (word === 'row' || word === 'nestrow') {
+        const cells = row.filter(Boolean).join(' | ');
+        if (cells) blocks.push({ type: 'table-row', text: cells });
+        row = [];
+      } else if (word === 'pard') {
+        state.outlineLevel = undefined;
+        state.style = undefined;
+        state.listLevel = undefined;
+        state.inTable = false;
+      } else if (word === 'outlinelevel') {
+        state.outlineLevel = value;
+      } else if (word === 's') {
+        state.style = value;
+      } else if (word === 'ls') {
+        state.listLevel = state.listLevel ?? 0;
+      } else if (word === 'ilvl') {
+        state.listLevel = value ?? 0;
+      } else if (word === 'intbl') {
+        state.inTable = true;
+      } else if (SYMBOLS[word]) {
+        append(SYMBOLS[word]);
+      }
+      starred = false;
+      continue;
+    }
+
+    if (raw[0] === '\r' || raw[0] === '\n') continue;
+
+    // Plain text, less any fallback characters of a preceding \uN
+    const skipped = Math.min(pendingSkip, raw.length);
+    pendingSkip -= skipped;
+    append(raw.slice(skipped));
+  }
+  emitBytes();
+  endParagraph();
+
+  return blocks;
+}
+
+/**
+ * Style numbers whose names are "heading 1" to "heading 9", from the stylesheet
+ */
+function readHeadingStyles(rtf: string): Map<number, number> {
+  const styles = new Map<number, number>();
+  for (const match of rtf.matchAll(/\{[^{}]*?\\s(\d+)\b[^{}]*?[ }]heading ([1-9])\s*;/gi)) {
+    styles.set(Number(match[1]), Number(match[2]));
+  }
+  return styles;
+}
+
+function createDecoder(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(CODE_PAGE_LABELS[codePage] || `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
@@ -0,0 +1,278 @@
+import { describe, it, expect } from "vitest";
+import { SemanticSearchService, IndexedDocument } from "./semanticSearch";
+import { InMemoryVectorStore } from "./vectorStore";
+import { documentWithChunks } from "./testDocuments";
+import { EmbeddingProvider, HashingEmbeddingProvider } from "./embeddingProvider";
+import { LanguageModel, LanguageModelMessage } from "./languageModel";
+import { QuerySyntaxError } from "./queryParser";
+
+class MockLanguageModel implements LanguageModel {
+  readonly name = "mock";
+  readonly model = "mock";
+  prompts: LanguageModelMessage[][] = [];
+
+  constructor(private readonly reply: (messages: LanguageModelMessage[]) => string) {}
+
+  async complete(messages: LanguageModelMessage[]): Promise<string> {
+    this.prompts.push(messages);
+    return this.reply(messages);
+  }
+}
+
+const createService = async (languageModel: LanguageModel | null) => {
+  const service = new SemanticSearchService({
+    store: new InMemoryVectorStore(),
+    embeddingProvider: new HashingEmbeddingProvider(),
+    syncFromDatabase: false,
+    languageModel,
+  });
+  await service.indexDocument(
+    documentWithChunks("1", [
+      "Vehicle servicing intervals: change the engine oil every 10,000 kilometres.",
+      "Quarterly revenue grew on strong subscription sales.",
+    ]),
+  );
+  await service.indexDocument(documentWithChunks("2", ["The cafeteria menu changes every Monday."]));
+  return service;
+};
+
+const options = { maxResults: 3, similarityThreshold: 0.05 };
+
+describe("SemanticSearchService retrieval modes", () => {
+  it("should miss passages worded differently from the query in standard mode", async () => {
+    const service = await createService(null);
+    const results = await service.hybridSearch("how often should I maintain my car", options);
+    expect(results.map((r) => r.chunkId)).not.toContain("0");
+  });
+
+  it("should fuse results for LLM paraphrases in multi-query mode", async () => {
+    const model = new MockLanguageModel(() => "1. vehicle servicing intervals\n2. engine oil change schedule");
+    const service = await createService(model);
+
+    const results = await service.hybridSearch("how often should I maintain my car", {
+      ...options,
+      retrievalMode: "multi-query",
+      queryVariants: 2,
+    });
+
+    expect(results[0].documentId).toBe("1");
+    expect(results[0].chunkId).toBe("0");
+    expect(model.prompts[0][0].content).toContain("Write 2 different search queries");
+  });
+
+  it("should embed a hypothetical answer in HyDE mode", async () => {
+    const model = new MockLanguageModel(
+      () => "Vehicle servicing intervals recommend that you change the engine oil every 10,000 kilometres.",
+    );
+    const service = await createService(model);
+
+    const results = await service.search("how often should I maintain my car", {
+      ...options,
+      retrievalMode: "hyde",
+    });
+
+    expect(results[0].documentId).toBe("1");
+    expect(results[0].chunkId).toBe("0");
+    expect(model.prompts[0][1].content).toBe("how often should I maintain my car");
+  });
+
+  it("should fall back to the original query when no language model is available", async () => {
+    const service = await createService(null);
+    const results = await service.hybridSearch("cafeteria menu", { ...options, retrievalMode: "multi-query" });
+    expect(results[0].documentId).toBe("2");
+  });
+});
+
+describe("SemanticSearchService weighted rank fusion", () => {
+  // Query "alpha" is [1, 0]; chunk vectors are picked so the semantic ranking is B, A, C while BM25 ranks A, B
+  class FixedEmbeddingProvider implements EmbeddingProvider {
+    readonly name = "fixed";
+    readonly model = "fixed";
+    readonly dimension = 2;
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((text) => {
+        if (text.includes("delta")) return [0.5, Math.sqrt(0.75)];
+        if (text.includes("gamma")) return [0.8, 0.6];
+        if (text.includes("beta")) return [0.6, 0.8];
+        return [1, 0];
+      });
+    }
+  }
+
+  const createFusionService = async () => {
+    const service = new SemanticSearchService({
+      store: new InMemoryVectorStore(),
+      embeddingProvider: new FixedEmbeddingProvider(),
+      syncFromDatabase: false,
+      languageModel: null,
+    });
+    await service.indexDocument(documentWithChunks("A", ["alpha alpha beta"]));
+    await service.indexDocument(documentWithChunks("B", ["alpha beta gamma"]));
+    await service.indexDocument(documentWithChunks("C", ["delta epsilon"]));
+    return service;
+  };
+
+  const fusion = (results: Awaited<ReturnType<SemanticSearchService["hybridSearch"]>>) =>
+    results.map((r) => [r.documentId, r.ranking?.semantic?.rank, r.ranking?.keyword?.rank, r.ranking?.fusedScore, r.similarity]);
+
+  it("should order results by weighted reciprocal rank and expose each signal's rank", async () => {
+    const service = await createFusionService();
+    const results = await service.hybridSearch("alpha", { maxResults: 3, similarityThreshold: 0.1, keywordWeight: 2 });
+
+    // fused = semanticWeight / (60 + semantic rank) + keywordWeight / (60 + keyword rank), scaled by 3 / 61
+    const fusedA = 1 / 62 + 2 / 61;
+    const fusedB = 1 / 61 + 2 / 62;
+    const fusedC = 1 / 63;
+    expect(fusion(results)).toEqual([
+      ["A", 2, 1, expect.closeTo(fusedA, 12), expect.closeTo(fusedA / (3 / 61), 12)],
+      ["B", 1, 2, expect.closeTo(fusedB, 12), expect.closeTo(fusedB / (3 / 61), 12)],
+      ["C", 3, undefined, expect.closeTo(fusedC, 12), expect.closeTo(fusedC / (3 / 61), 12)],
+    ]);
+    expect(results[1].ranking?.semantic?.score).toBeCloseTo(0.8, 10);
+    expect(results[0].ranking?.keyword?.score).toBeGreaterThan(results[1].ranking?.keyword?.score ?? Infinity);
+  });
+
+  it("should let a heavier semantic weight reverse the order", async () => {
+    const service = await createFusionService();
+    const results = await service.hybridSearch("alpha", { maxResults: 3, similarityThreshold: 0.1, semanticWeight: 2, rrfK: 10 });
+
+    expect(fusion(results)).toEqual([
+      ["B", 1, 2, expect.closeTo(2 / 11 + 1 / 12, 12), expect.closeTo((2 / 11 + 1 / 12) / (3 / 11), 12)],
+      ["A", 2, 1, expect.closeTo(2 / 12 + 1 / 11, 12), expect.closeTo((2 / 12 + 1 / 11) / (3 / 11), 12)],
+      ["C", 3, undefined, expect.closeTo(2 / 13, 12), expect.closeTo(2 / 13 / (3 / 11), 12)],
+    ]);
+  });
+});
+
+describe("SemanticSearchService filters", () => {
+  const createLibrary = async () => {
+    const service = new SemanticSearchService({
+      store: new InMemoryVectorStore(),
+      embeddingProvider: new HashingEmbeddingProvider(),
+      syncFromDatabase: false,
+      languageModel: null,
+    });
+    // The PDFs match the query best, so an unfiltered top 2 holds only PDFs
+    for (const id of ["1", "2", "3"]) {
+      await service.indexDocument({
+        ...documentWithChunks(id, ["Pump maintenance schedule: inspect the pump seals and pump bearings."]),
+        metadata: { fileType: ".pdf", extractedAt: new Date("2026-10-01") } as IndexedDocument["metadata"],
+      });
+    }
+    await service.indexDocument({
+      ...documentWithChunks("4", ["Notes on pump maintenance for the new site."]),
+      uploadDate: new Date("2026-10-19T15:30:00Z"),
+    });
+    await service.indexDocument({
+      ...documentWithChunks("5", ["The maintenance budget was approved."]),
+      uploadDate: new Date("2026-10-20T08:00:00Z"),
+    });
+    return service;
+  };
+
+  it("should apply filters before taking the top results", async () => {
+    const service = await createLibrary();
+    const options = { maxResults: 2, similarityThreshold: 0.01, filters: { fileType: "txt" } };
+
+    const unfiltered = await service.hybridSearch("pump maintenance", { maxResults: 2, similarityThreshold: 0.01 });
+    expect(unfiltered.every((r) => ["1", "2", "3"].includes(r.documentId))).toBe(true);
+
+    expect((await service.search("pump maintenance", options)).map((r) => r.documentId)).toEqual(["4", "5"]);
+    expect((await service.hybridSearch("pump maintenance", options)).map((r) => r.documentId)).toEqual(["4", "5"]);
+  });
+
+  it("should include the whole day of a date-only upload bound", async () => {
+    const service = await createLibrary();
+    const uploaded = async (filters: { uploadedAfter?: string; uploadedBefore?: string }) =>
+      (await service.search("pump maintenance", { maxResults: 5, similarityThreshold: 0.01, filters: { fileType: "txt", ...filters } }))
+        .map((r) => r.documentId)
+        .sort();
+
+    expect(await uploaded({ uploadedBefore: "2026-10-19" })).toEqual(["4"]);
+    expect(await uploaded({ uploadedBefore: "2026-10-18" })).toEqual([]);
+    expect(await uploaded({ uploadedBefore: "2026-10-19T12:00:00Z" })).toEqual([]);
+    expect(await uploaded({ uploadedAfter: "2026-10-20" })).toEqual(["5"]);
+  });
+});
+
+describe("SemanticSearchService boolean queries", () => {
+  const booleanOptions = { ...options, booleanSyntax: true };
+
+  it("should only return chunks satisfying the query", async () => {
+    const service = await createService(null);
+
+    const results = await service.hybridSearch('"engine oil" OR menu -cafeteria', booleanOptions);
+    expect(results.map((r) => [r.documentId, r.chunkId])).toEqual([["1", "0"]]);
+
+    const excluded = await service.hybridSearch("cafeteria -monday", booleanOptions);
+    expect(excluded).toHaveLength(0);
+  });
+
+  it("should surface syntax errors instead of falling back", async () => {
+    const service = await createService(null);
+    await expect(service.hybridSearch('"engine oil', booleanOptions)).rejects.toThrow(QuerySyntaxError);
+  });
+
+  it("should treat operators and quotes as plain text unless boolean syntax is enabled", async () => {
+    const service = await createService(null);
+
+    const results = await service.hybridSearch('what does "engine oil need -cafeteria', options);
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].documentId).toBe("1");
+  });
+});
+
+describe("SemanticSearchService.findRelated", () => {
+  const createLibrary = async () => {
+    const service = new SemanticSearchService({
+      store: new InMemoryVectorStore(),
+      embeddingProvider: new HashingEmbeddingProvider(),
+      syncFromDatabase: false,
+      languageModel: null,
+    });
+    await service.indexDocument(
+      documentWithChunks("1", [
+        "Engine oil should be changed every 10,000 kilometres.",
+        "Check tyre pressure monthly and before long trips.",
+      ]),
+    );
+    await service.indexDocument(
+      documentWithChunks("2", [
+        "Change the engine oil and filter every 10,000 kilometres.",
+        "Inflate tyres to the pressure printed inside the door before long trips.",
+      ]),
+    );
+    await service.indexDocument(
+      documentWithChunks("3", ["Change the engine oil regularly.", "Quarterly revenue grew on subscription sales."]),
+    );
+    await service.indexDocument(documentWithChunks("4", ["The cafeteria menu changes every Monday."]));
+    return service;
+  };
+
+  it("should rank documents by aggregate similarity and exclude the source", async () => {
+    const service = await createLibrary();
+    const related = await service.findRelated("1");
+
+    const ids = related.documents.map((d) => d.documentId);
+    expect(ids).not.toContain("1");
+    expect(ids[0]).toBe("2");
+    expect(ids[1]).toBe("3");
+    expect(related.documents[0].matchedChunks).toBe(2);
+    expect(related.chunks.every((c) => c.documentId !== "1")).toBe(true);
+  });
+
+  it("should find neighbours of a single chunk", async () => {
+    const service = await createLibrary();
+    const related = await service.findRelated("1", "1", { maxChunks: 1 });
+
+    expect(related.chunks).toHaveLength(1);
+    expect(related.chunks[0]).toMatchObject({ documentId: "2", chunkId: "1" });
+  });
+
+  it("should return null for documents or chunks that are not indexed", async () => {
+    const service = await createLibrary();
+    expect(await service.findRelated("99")).toBeNull();
+    expect(await service.findRelated("1", "42")).toBeNull();
+  });
+});
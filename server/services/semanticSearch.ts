@@ -1,9 +1,26 @@
-import OpenAI from 'openai';
-import { DocumentChunk, ProcessedDocument } from './documentProcessor';
+import { DocumentChunk, DocumentProcessor, INDEXING_OPTIONS, ProcessedDocument, ProcessingOptions } from './documentProcessor';
+import { VectorStore, createVectorStore } from './vectorStore';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddingProvider';
+import { EmbeddingBatcher, EmbeddingBatcherOptions, EmbeddingBatcherStats } from './embeddingBatcher';
+import { KeywordIndex, KeywordMatch } from './keywordIndex';
+import { HnswIndex, HnswOptions } from './hnswIndex';
+import { Reranker, createReranker, rerankResults } from './reranker';
+import { ChunkSpan, maximalMarginalRelevance, suppressOverlappingSpans } from './diversity';
+import { QueryExpander } from './queryExpander';
+import { LanguageModel, getDefaultLanguageModel } from './languageModel';
+import { ParsedQuery, QueryNode, parseSearchQuery } from './queryParser';
+import { evaluateQuery, matchesField } from './queryEvaluator';
+import { analyzeTerms } from './textAnalyzer';
+import { suggestCorrection } from './fuzzy';
+import { Document, getAllDocuments } from '../database';
+import { DocumentSearchFilters, QuerySuggestion, RelatedDocument, RerankMethod, RetrievalMode } from '../../shared/api';
 
 export interface VectorEmbedding {
   id: string;
   vector: number[];
+  model: string;
+  dimension: number;
+  pipelineVersion?: string; // chunking and embedding pipeline that produced this vector
   metadata: {
     documentId: string;
     chunkId: string;
@@ -12,6 +29,18 @@ export interface VectorEmbedding {
   };
 }
 
+// Indexed documents also carry the upload context used for filtering
+export interface IndexedDocument extends ProcessedDocument {
+  sessionId?: string;
+  userId?: string;
+  uploadDate?: Date;
+}
+
+export interface SignalRank {
+  rank: number;   // 1-based position in that signal's result list
+  score: number;  // raw score from that signal (cosine similarity or BM25)
+}
+
 export interface SearchResult {
   documentId: string;
   chunkId: string;
@@ -21,6 +50,14 @@ export interface SearchResult {
     documentName: string;
     tags: string[];
     wordCount: number;
+    page?: number;     // pages the chunk spans, for documents with page boundaries
+    endPage?: number;
+  };
+  ranking?: {
+    semantic?: SignalRank;
+    keyword?: SignalRank;
+    fusedScore: number;
+    rerank?: SignalRank;
   };
 }
 
@@ -28,45 +65,256 @@ export interface SearchOptions {
   maxResults?: number;
   similarityThreshold?: number;
   includeMetadata?: boolean;
+  semanticWeight?: number; // weight of the semantic ranking in hybrid search (default 1)
+  keywordWeight?: number;  // weight of the keyword ranking in hybrid search (default 1)
+  rrfK?: number;           // reciprocal rank fusion constant (default 60)
+  filters?: DocumentSearchFilters; // applied before top-k selection
+  exact?: boolean;         // skip the ANN index and compare against every vector
+  rerank?: RerankMethod;   // second-stage reranker for hybrid search (default RERANKER env or none)
+  rerankTopN?: number;     // fused candidates passed to the reranker (default 20)
+  mmr?: boolean;           // diversify results with maximal marginal relevance
+  mmrLambda?: number;      // MMR trade-off, 1 = pure relevance, 0 = pure novelty (default 0.7)
+  suppressOverlap?: boolean; // drop chunks overlapping a better result from the same document (default: on with mmr)
+  retrievalMode?: RetrievalMode; // standard, multi-query (fused paraphrases) or hyde (hypothetical answer)
+  queryVariants?: number;  // paraphrases generated in multi-query mode (default 3)
+  fuzzy?: boolean;         // match misspelled query words to similar indexed words in keyword search (default true)
+  booleanSyntax?: boolean; // read AND/OR/NOT, quoted phrases, -exclusions and field clauses in hybrid search (default false: plain text)
+}
+
+export interface RelatedContentOptions {
+  maxDocuments?: number;   // related documents to return (default 5)
+  maxChunks?: number;      // related chunks to return (default 10)
+  similarityThreshold?: number;
+  filters?: DocumentSearchFilters;
+  exact?: boolean;
+}
+
+export interface RelatedContent {
+  documents: RelatedDocument[];
+  chunks: SearchResult[];
+}
+
+// Upload date filters given as a day, e.g. "2026-10-19", rather than a point in time
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One ranked result list taking part in rank fusion
+interface RankedList {
+  results: SearchResult[];
+  signal: 'semantic' | 'keyword';
+  weight: number;
+}
+
+export interface SemanticSearchServiceOptions {
+  store?: VectorStore;
+  embeddingProvider?: EmbeddingProvider;
+  syncFromDatabase?: boolean;
+  ann?: HnswOptions | false; // false disables the approximate index
+  batching?: EmbeddingBatcherOptions;
+  rerankers?: Partial<Record<RerankMethod, Reranker>>;
+  languageModel?: LanguageModel | null; // used by multi-query and HyDE retrieval
+  processing?: ProcessingOptions;       // chunking documents are expected to be indexed with (default INDEXING_OPTIONS)
 }
 
 export class SemanticSearchService {
-  private openai: OpenAI;
+  private embeddingProvider: EmbeddingProvider;
+  private embedder: EmbeddingBatcher;
+  private store: VectorStore;
+  private syncFromDatabase: boolean;
+  private initialization: Promise<void> | null = null;
   private embeddings: Map<string, VectorEmbedding> = new Map();
-  private documentIndex: Map<string, ProcessedDocument> = new Map();
-  private readonly EMBEDDING_MODEL = 'text-embedding-3-small';
+  private documentIndex: Map<string, IndexedDocument> = new Map();
+  private keywordIndex = new KeywordIndex();
+  private annIndex: HnswIndex | null;
+  private rerankers: Map<RerankMethod, Reranker | null> = new Map();
+  private languageModel: LanguageModel | null | undefined;
+  private queryExpander: QueryExpander | null | undefined;
+  private processing: ProcessingOptions;
   private readonly DEFAULT_MAX_RESULTS = 10;
+  private readonly KEYWORD_CANDIDATES = 100;
+  private readonly SEMANTIC_CANDIDATES = 50;
+  private readonly DEFAULT_RRF_K = 60;
+  private readonly ANN_MIN_VECTORS = 1000; // below this an exact scan is fast enough
+  private readonly DEFAULT_RERANK_TOP_N = 20;
+  private readonly DIVERSITY_CANDIDATES = 40;
+  private readonly DEFAULT_MMR_LAMBDA = 0.7;
+  private readonly DEFAULT_QUERY_VARIANTS = 3;
   private readonly DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+  private readonly RELATED_SOURCE_CHUNKS = 50; // longer documents are sampled evenly
+  private readonly DEFAULT_RELATED_DOCUMENTS = 5;
+  private readonly DEFAULT_RELATED_CHUNKS = 10;
+
+  constructor(options: SemanticSearchServiceOptions = {}) {
+    this.store = options.store || createVectorStore();
+    this.syncFromDatabase = options.syncFromDatabase ?? true;
+    this.embeddingProvider = options.embeddingProvider || createEmbeddingProvider();
+    this.embedder = new EmbeddingBatcher(this.embeddingProvider, options.batching);
+    const ann = options.ann ?? (process.env.ANN_INDEX === 'none' ? false : {});
+    this.annIndex = ann === false ? null : new HnswIndex(ann);
+    this.languageModel = options.languageModel;
+    this.processing = options.processing || INDEXING_OPTIONS;
+    Object.entries(options.rerankers || {}).forEach(([method, reranker]) => {
+      this.rerankers.set(method as RerankMethod, reranker);
+    });
+    console.log(`Semantic search using ${this.embeddingProvider.name} embeddings (${this.embeddingProvider.model})`);
+  }
+
+  /**
+   * Rehydrate the index from the vector store and embed any database documents it is missing.
+   * Safe to call repeatedly; the work only happens once.
+   */
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.loadIndex();
+    }
+    return this.initialization;
+  }
+
+  /**
+   * Load stored documents and vectors into memory
+   */
+  private async loadIndex(): Promise<void> {
+    try {
+      const snapshot = await this.store.load();
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey || apiKey === 'sk-placeholder') {
-      console.warn('⚠️  OpenAI API key not set. Semantic search will be disabled.');
-      this.openai = null;
-    } else {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
+      snapshot.documents.forEach(document => this.documentIndex.set(document.id, document));
+      snapshot.embeddings.forEach(embedding => {
+        this.embeddings.set(embedding.id, embedding);
+        this.keywordIndex.add(embedding.id, embedding.metadata.content);
+        if (embedding.model === this.embeddingProvider.model) {
+          this.annIndex?.add(embedding.id, embedding.vector);
+          this.embedder.prime(embedding.metadata.content, embedding.vector);
+        }
       });
+
+      console.log(`Loaded ${snapshot.documents.length} documents and ${snapshot.embeddings.length} embeddings from ${this.store.name} vector store`);
+    } catch (error) {
+      console.error('Failed to load vector store, starting with an empty index:', error);
+    }
+
+    await this.reembedStaleDocuments();
+
+    if (this.syncFromDatabase) {
+      await this.indexDatabaseDocuments();
+    }
+  }
+
+  /**
+   * Re-embed documents whose stored vectors came from a different embedding model,
+   * since vectors from different models cannot be compared
+   */
+  private async reembedStaleDocuments(): Promise<void> {
+    const staleDocumentIds = new Set<string>();
+    for (const embedding of this.embeddings.values()) {
+      if (embedding.model !== this.embeddingProvider.model) {
+        staleDocumentIds.add(embedding.metadata.documentId);
+      }
+    }
+
+    if (staleDocumentIds.size === 0) return;
+
+    console.log(`Re-embedding ${staleDocumentIds.size} documents for model ${this.embeddingProvider.model}`);
+    for (const documentId of staleDocumentIds) {
+      const document = this.documentIndex.get(documentId);
+      if (!document) {
+        this.removeEmbeddings(documentId);
+        continue;
+      }
+
+      try {
+        await this.storeDocument(document);
+      } catch (error) {
+        console.error(`Failed to re-embed document ${document.name}:`, error);
+        this.removeEmbeddings(documentId);
+      }
     }
   }
 
+  /**
+   * Embed chunks saved by addDocument that are not in the vector store yet
+   */
+  private async indexDatabaseDocuments(): Promise<void> {
+    let documents: Document[];
+    try {
+      documents = await getAllDocuments();
+    } catch (error) {
+      console.warn(`⚠️  Skipping database sync for semantic search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    const missing = documents.filter(doc =>
+      doc.processed && doc.chunks?.length > 0 && !this.documentIndex.has(String(doc.id))
+    );
+
+    if (missing.length === 0) return;
+
+    console.log(`Indexing ${missing.length} database documents missing from the vector store`);
+    for (const doc of missing) {
+      try {
+        await this.storeDocument(this.toIndexedDocument(doc));
+      } catch (error) {
+        console.error(`Failed to index database document ${doc.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Convert a database row into the shape used by the index
+   */
+  private toIndexedDocument(doc: Document): IndexedDocument {
+    return {
+      id: String(doc.id),
+      name: doc.name,
+      content: doc.content,
+      chunks: doc.chunks,
+      metadata: {
+        ...doc.metadata,
+        fileType: doc.fileType,
+        extractedAt: new Date(doc.metadata?.extractedAt ?? doc.uploadDate)
+      },
+      summary: doc.summary,
+      tags: doc.tags || [],
+      sessionId: doc.sessionId,
+      userId: doc.userId,
+      uploadDate: doc.uploadDate
+    };
+  }
+
   /**
    * Index a processed document for semantic search
    */
-  async indexDocument(document: ProcessedDocument): Promise<void> {
+  async indexDocument(document: IndexedDocument): Promise<void> {
+    await this.initialize();
+    await this.storeDocument(document);
+  }
+
+  /**
+   * Embed a document's chunks and persist them to the vector store
+   */
+  private async storeDocument(document: IndexedDocument): Promise<void> {
     try {
       console.log(`Indexing document: ${document.name} with ${document.chunks.length} chunks`);
 
+      // Drop vectors from any previous version of this document
+      this.removeEmbeddings(document.id);
+
+      const pipelineVersion = this.pipelineVersionFor(document.metadata.chunkingVersion);
+      document = { ...document, metadata: { ...document.metadata, pipelineVersion } };
+
       // Store document metadata
       this.documentIndex.set(document.id, document);
 
-      // Generate embeddings for each chunk
-      const embeddingPromises = document.chunks.map(async (chunk) => {
-        const embedding = await this.generateEmbedding(chunk.content);
-        
+      // Generate embeddings for all chunks in batches; unchanged chunks come from the cache
+      const chunkVectors = await this.embedder.embed(document.chunks.map(chunk => chunk.content));
+
+      const vectors: VectorEmbedding[] = document.chunks.map((chunk, index) => {
+        const embedding = chunkVectors[index];
         const vectorEmbedding: VectorEmbedding = {
           id: `${document.id}_${chunk.id}`,
           vector: embedding,
+          model: this.embeddingProvider.model,
+          dimension: embedding.length,
+          pipelineVersion,
           metadata: {
             documentId: document.id,
             chunkId: chunk.id,
@@ -76,9 +324,12 @@ export class SemanticSearchService {
         };
 
         this.embeddings.set(vectorEmbedding.id, vectorEmbedding);
+        this.keywordIndex.add(vectorEmbedding.id, chunk.content);
+        this.annIndex?.add(vectorEmbedding.id, embedding);
+        return vectorEmbedding;
       });
 
-      await Promise.all(embeddingPromises);
+      await this.store.saveDocument(document, vectors);
       console.log(`Successfully indexed document: ${document.name}`);
     } catch (error) {
       console.error(`Error indexing document ${document.name}:`, error);
@@ -86,49 +337,83 @@ export class SemanticSearchService {
     }
   }
 
+  /**
+   * Version of the current chunking options and embedding model. Documents stamped with a different
+   * version were chunked or embedded differently and should be reindexed.
+   */
+  getPipelineVersion(): string {
+    return this.pipelineVersionFor(DocumentProcessor.chunkingVersion(this.processing));
+  }
+
+  private pipelineVersionFor(chunkingVersion: string | undefined): string {
+    return `${chunkingVersion ?? 'unversioned'};embedding=${this.embeddingProvider.model}`;
+  }
+
+  /**
+   * Indexed documents whose chunks or vectors come from an older pipeline version
+   */
+  async getStaleDocuments(): Promise<IndexedDocument[]> {
+    await this.initialize();
+    const currentVersion = this.getPipelineVersion();
+    return Array.from(this.documentIndex.values()).filter(document => document.metadata.pipelineVersion !== currentVersion);
+  }
+
+  /**
+   * Bring a document up to the current pipeline version: re-chunk its content if the chunking changed,
+   * then re-embed it. Returns the reindexed document, or null if it is not in the index.
+   */
+  async reindexDocument(documentId: string): Promise<IndexedDocument | null> {
+    await this.initialize();
+    const document = this.documentIndex.get(documentId);
+    if (!document) return null;
+
+    let updated = document;
+    if (document.metadata.chunkingVersion !== DocumentProcessor.chunkingVersion(this.processing)) {
+      const { chunks, chunkingVersion } = DocumentProcessor.rechunk(document.content, this.processing, {
+        pageOffsets: document.metadata.pageOffsets,
+        headings: document.metadata.headings,
+        tables: document.metadata.tables
+      });
+      updated = { ...document, chunks, metadata: { ...document.metadata, chunkingVersion } };
+    }
+
+    await this.storeDocument(updated);
+    return this.documentIndex.get(documentId);
+  }
+
   /**
    * Search for semantically similar content
    */
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
     try {
+      await this.initialize();
+
       const maxResults = options.maxResults || this.DEFAULT_MAX_RESULTS;
       const similarityThreshold = options.similarityThreshold || this.DEFAULT_SIMILARITY_THRESHOLD;
 
       console.log(`Performing semantic search for: "${query}"`);
 
-      // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query);
+      // Generate embeddings for the query (several in multi-query mode)
+      const queryEmbeddings = await this.buildQueryEmbeddings(query, options);
+      const isAllowed = this.buildDocumentFilter(options.filters);
 
-      // Calculate similarities with all indexed embeddings
-      const similarities: Array<{ embedding: VectorEmbedding; similarity: number }> = [];
+      // Diversification needs a deeper pool to choose from
+      const diversify = this.isDiversifying(options);
+      const candidateCount = diversify ? Math.max(maxResults * 4, this.DIVERSITY_CANDIDATES) : maxResults;
 
-      for (const embedding of this.embeddings.values()) {
-        const similarity = this.calculateCosineSimilarity(queryEmbedding, embedding.vector);
-        
-        if (similarity >= similarityThreshold) {
-          similarities.push({ embedding, similarity });
-        }
-      }
-
-      // Sort by similarity score (highest first)
-      similarities.sort((a, b) => b.similarity - a.similarity);
+      const useAnn = this.shouldUseAnn(options, isAllowed);
+      const similarities = this.mergeNearest(queryEmbeddings.map(queryEmbedding => useAnn
+        ? this.approximateNearest(queryEmbedding, candidateCount, similarityThreshold, isAllowed)
+        : this.exactNearest(queryEmbedding, similarityThreshold, isAllowed)
+      ));
 
       // Convert to search results
-      const results: SearchResult[] = similarities.slice(0, maxResults).map(({ embedding, similarity }) => {
-        const document = this.documentIndex.get(embedding.metadata.documentId);
-        
-        return {
-          documentId: embedding.metadata.documentId,
-          chunkId: embedding.metadata.chunkId,
-          content: embedding.metadata.content,
-          similarity,
-          metadata: {
-            documentName: document?.name || 'Unknown Document',
-            tags: embedding.metadata.tags,
-            wordCount: embedding.metadata.content.split(/\s+/).length
-          }
-        };
-      });
+      let results: SearchResult[] = similarities.slice(0, candidateCount)
+        .map(({ embedding, similarity }) => this.toSearchResult(embedding, similarity));
+
+      if (diversify) {
+        results = this.diversifyResults(results, options, maxResults);
+      }
 
       console.log(`Found ${results.length} relevant results for query: "${query}"`);
       return results;
@@ -138,6 +423,329 @@ export class SemanticSearchService {
     }
   }
 
+  /**
+   * "More like this": documents and chunks closest to a document, or to one of its chunks.
+   * Every source chunk looks up its nearest neighbours in other documents; a document's aggregate
+   * similarity is the mean over source chunks of their best match in it, so documents that resemble
+   * the whole source rank above ones sharing a single passage. Returns null for unknown documents or chunks.
+   */
+  async findRelated(documentId: string, chunkId?: string, options: RelatedContentOptions = {}): Promise<RelatedContent | null> {
+    await this.initialize();
+
+    const document = this.documentIndex.get(documentId);
+    const sourceChunks = document?.chunks.filter(chunk => chunkId === undefined || chunk.id === chunkId) ?? [];
+    if (sourceChunks.length === 0) return null;
+
+    let sources = sourceChunks
+      .map(chunk => this.embeddings.get(`${documentId}_${chunk.id}`))
+      .filter(embedding => embedding && embedding.model === this.embeddingProvider.model);
+    if (sources.length > this.RELATED_SOURCE_CHUNKS) {
+      const step = sources.length / this.RELATED_SOURCE_CHUNKS;
+      sources = Array.from({ length: this.RELATED_SOURCE_CHUNKS }, (_, i) => sources[Math.floor(i * step)]);
+    }
+
+    const filter = this.buildDocumentFilter(options.filters);
+    const isAllowed = (id: string) => id !== documentId && (!filter || filter(id));
+    const similarityThreshold = options.similarityThreshold ?? 0;
+    const useAnn = this.shouldUseAnn({ exact: options.exact }, isAllowed);
+
+    const bestChunks = new Map<string, { embedding: VectorEmbedding; similarity: number }>();
+    const documentTotals = new Map<string, number>();
+
+    for (const source of sources) {
+      const neighbours = useAnn
+        ? this.approximateNearest(source.vector, this.SEMANTIC_CANDIDATES, similarityThreshold, isAllowed)
+        : this.exactNearest(source.vector, similarityThreshold, isAllowed);
+
+      const bestPerDocument = new Map<string, number>();
+      for (const neighbour of neighbours) {
+        const neighbourDocumentId = neighbour.embedding.metadata.documentId;
+        bestPerDocument.set(neighbourDocumentId, Math.max(bestPerDocument.get(neighbourDocumentId) ?? 0, neighbour.similarity));
+
+        const current = bestChunks.get(neighbour.embedding.id);
+        if (!current || neighbour.similarity > current.similarity) {
+          bestChunks.set(neighbour.embedding.id, neighbour);
+        }
+      }
+
+      for (const [neighbourDocumentId, similarity] of bestPerDocument) {
+        documentTotals.set(neighbourDocumentId, (documentTotals.get(neighbourDocumentId) ?? 0) + similarity);
+      }
+    }
+
+    const rankedChunks = Array.from(bestChunks.values()).sort((a, b) => b.similarity - a.similarity);
+    const matchedChunks = new Map<string, number>();
+    rankedChunks.forEach(({ embedding }) => {
+      matchedChunks.set(embedding.metadata.documentId, (matchedChunks.get(embedding.metadata.documentId) ?? 0) + 1);
+    });
+
+    const documents: RelatedDocument[] = Array.from(documentTotals.entries())
+      .map(([relatedId, total]) => ({
+        documentId: relatedId,
+        documentName: this.documentIndex.get(relatedId)?.name || 'Unknown Document',
+        similarity: total / sources.length,
+        matchedChunks: matchedChunks.get(relatedId) ?? 0
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.maxDocuments ?? this.DEFAULT_RELATED_DOCUMENTS);
+
+    return {
+      documents,
+      chunks: rankedChunks
+        .slice(0, options.maxChunks ?? this.DEFAULT_RELATED_CHUNKS)
+        .map(({ embedding, similarity }) => this.toSearchResult(embedding, similarity))
+    };
+  }
+
+  /**
+   * Build a search result for a stored chunk vector
+   */
+  private toSearchResult(embedding: VectorEmbedding, similarity: number): SearchResult {
+    const document = this.documentIndex.get(embedding.metadata.documentId);
+    const chunk = document?.chunks.find(c => c.id === embedding.metadata.chunkId);
+
+    return {
+      documentId: embedding.metadata.documentId,
+      chunkId: embedding.metadata.chunkId,
+      content: embedding.metadata.content,
+      similarity,
+      metadata: {
+        documentName: document?.name || 'Unknown Document',
+        tags: embedding.metadata.tags,
+        wordCount: embedding.metadata.content.split(/\s+/).length,
+        ...(chunk?.metadata.page !== undefined && { page: chunk.metadata.page, endPage: chunk.metadata.endPage ?? chunk.metadata.page })
+      }
+    };
+  }
+
+  /**
+   * Use the ANN index unless the caller asked for exact results, the index is small,
+   * or the filters leave so few vectors that a scan is cheaper than a filtered graph walk
+   */
+  private shouldUseAnn(options: SearchOptions, isAllowed: ((documentId: string) => boolean) | null): boolean {
+    if (!this.annIndex || options.exact || this.annIndex.size < this.ANN_MIN_VECTORS) {
+      return false;
+    }
+    if (!isAllowed) return true;
+
+    let allowedVectors = 0;
+    for (const document of this.documentIndex.values()) {
+      if (isAllowed(document.id)) {
+        allowedVectors += document.chunks.length;
+      }
+    }
+    return allowedVectors >= this.ANN_MIN_VECTORS;
+  }
+
+  /**
+   * Compare the query against every indexed vector that passes the filters
+   */
+  private exactNearest(
+    queryEmbedding: number[],
+    similarityThreshold: number,
+    isAllowed: ((documentId: string) => boolean) | null
+  ): Array<{ embedding: VectorEmbedding; similarity: number }> {
+    const similarities: Array<{ embedding: VectorEmbedding; similarity: number }> = [];
+
+    for (const embedding of this.embeddings.values()) {
+      if (embedding.model !== this.embeddingProvider.model) continue;
+      if (isAllowed && !isAllowed(embedding.metadata.documentId)) continue;
+
+      const similarity = this.calculateCosineSimilarity(queryEmbedding, embedding.vector);
+      
+      if (similarity >= similarityThreshold) {
+        similarities.push({ embedding, similarity });
+      }
+    }
+
+    // Sort by similarity score (highest first)
+    return similarities.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Look up the nearest vectors in the HNSW graph
+   */
+  private approximateNearest(
+    queryEmbedding: number[],
+    maxResults: number,
+    similarityThreshold: number,
+    isAllowed: ((documentId: string) => boolean) | null
+  ): Array<{ embedding: VectorEmbedding; similarity: number }> {
+    const matches = this.annIndex.search(queryEmbedding, maxResults, {
+      filter: isAllowed
+        ? id => {
+            const embedding = this.embeddings.get(id);
+            return !!embedding && isAllowed(embedding.metadata.documentId);
+          }
+        : undefined
+    });
+
+    return matches
+      .filter(match => match.similarity >= similarityThreshold)
+      .map(match => ({ embedding: this.embeddings.get(match.id), similarity: match.similarity }))
+      .filter(match => !!match.embedding);
+  }
+
+  /**
+   * Query vectors for the retrieval mode: the query itself, one per paraphrase in multi-query mode,
+   * or the query blended with a hypothetical answer in HyDE mode
+   */
+  private async buildQueryEmbeddings(query: string, options: SearchOptions): Promise<number[][]> {
+    const mode = options.retrievalMode || 'standard';
+
+    if (mode === 'multi-query') {
+      const queries = await this.expandQuery(query, options.queryVariants);
+      return this.embedder.embed(queries);
+    }
+
+    if (mode === 'hyde') {
+      const hypotheticalAnswer = await this.generateHypotheticalAnswer(query);
+      if (hypotheticalAnswer) {
+        const [queryVector, answerVector] = await this.embedder.embed([query, hypotheticalAnswer]);
+        return [queryVector.map((value, i) => (value + answerVector[i]) / 2)];
+      }
+    }
+
+    return [await this.generateEmbedding(query)];
+  }
+
+  /**
+   * Merge nearest-neighbour lists from several query vectors, keeping each chunk's best similarity
+   */
+  private mergeNearest(
+    lists: Array<Array<{ embedding: VectorEmbedding; similarity: number }>>
+  ): Array<{ embedding: VectorEmbedding; similarity: number }> {
+    if (lists.length === 1) return lists[0];
+
+    const best = new Map<string, { embedding: VectorEmbedding; similarity: number }>();
+    lists.flat().forEach(match => {
+      const current = best.get(match.embedding.id);
+      if (!current || match.similarity > current.similarity) {
+        best.set(match.embedding.id, match);
+      }
+    });
+
+    return Array.from(best.values()).sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * The query followed by LLM paraphrases of it. Without a language model only the query is returned.
+   */
+  private async expandQuery(query: string, count = this.DEFAULT_QUERY_VARIANTS): Promise<string[]> {
+    const expander = this.getQueryExpander();
+    if (!expander) {
+      console.warn('⚠️  No language model configured for multi-query retrieval, searching with the original query only');
+      return [query];
+    }
+
+    try {
+      const variants = await expander.paraphrase(query, count);
+      console.log(`Multi-query retrieval with ${variants.length} paraphrases: ${variants.map(v => `"${v}"`).join(', ')}`);
+      return [query, ...variants];
+    } catch (error) {
+      console.warn(`⚠️  Query paraphrasing failed, searching with the original query only: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [query];
+    }
+  }
+
+  /**
+   * Draft an answer passage for HyDE retrieval, or an empty string if none could be generated
+   */
+  private async generateHypotheticalAnswer(query: string): Promise<string> {
+    const expander = this.getQueryExpander();
+    if (!expander) {
+      console.warn('⚠️  No language model configured for HyDE retrieval, embedding the query instead');
+      return '';
+    }
+
+    try {
+      return await expander.hypotheticalAnswer(query);
+    } catch (error) {
+      console.warn(`⚠️  Hypothetical answer generation failed, embedding the query instead: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return '';
+    }
+  }
+
+  private getQueryExpander(): QueryExpander | null {
+    if (this.queryExpander === undefined) {
+      const languageModel = this.languageModel === undefined ? getDefaultLanguageModel() : this.languageModel;
+      this.queryExpander = languageModel ? new QueryExpander(languageModel) : null;
+    }
+    return this.queryExpander;
+  }
+
+  private isDiversifying(options: SearchOptions): boolean {
+    return !!options.mmr || !!options.suppressOverlap;
+  }
+
+  /**
+   * Remove overlapping neighbour chunks and/or reorder with MMR, returning at most maxResults results.
+   * Relevance is the reranker score when present, otherwise the search similarity.
+   */
+  private diversifyResults(results: SearchResult[], options: SearchOptions, maxResults: number): SearchResult[] {
+    let candidates = results;
+
+    if (options.suppressOverlap ?? !!options.mmr) {
+      candidates = suppressOverlappingSpans(candidates, result => this.getChunkSpan(result));
+    }
+
+    if (!options.mmr) {
+      return candidates.slice(0, maxResults);
+    }
+
+    const vectors = new Map(candidates.map(result => [
+      result,
+      this.embeddings.get(`${result.documentId}_${result.chunkId}`)?.vector
+    ]));
+
+    return maximalMarginalRelevance(candidates, {
+      lambda: options.mmrLambda ?? this.DEFAULT_MMR_LAMBDA,
+      limit: maxResults,
+      relevance: result => result.ranking?.rerank?.score ?? result.similarity,
+      similarity: (a, b) => {
+        const vectorA = vectors.get(a);
+        const vectorB = vectors.get(b);
+        return vectorA && vectorB ? this.calculateCosineSimilarity(vectorA, vectorB) : 0;
+      }
+    });
+  }
+
+  /**
+   * "Did you mean" suggestion for query words that are not in the indexed documents, or null
+   */
+  async suggestQuery(query: string): Promise<QuerySuggestion | null> {
+    await this.initialize();
+    return suggestCorrection(query, this.keywordIndex);
+  }
+
+  /**
+   * Character offset of a chunk within its document's content, or null when it cannot be located
+   */
+  getChunkOffset(documentId: string, chunkId: string): number | null {
+    const document = this.documentIndex.get(documentId);
+    const chunk = document?.chunks.find(c => c.id === chunkId);
+    if (!chunk) return null;
+
+    // Documents chunked before offsets were recorded fall back to locating the text
+    if (chunk.metadata.startOffset !== undefined) return chunk.metadata.startOffset;
+    const offset = document.content.indexOf(chunk.content);
+    return offset >= 0 ? offset : null;
+  }
+
+  /**
+   * Word span of a result's chunk within its document
+   */
+  private getChunkSpan(result: SearchResult): ChunkSpan | null {
+    const chunk = this.documentIndex.get(result.documentId)?.chunks.find(c => c.id === result.chunkId);
+    if (!chunk) return null;
+
+    return {
+      documentId: result.documentId,
+      start: chunk.metadata.startIndex,
+      end: chunk.metadata.endIndex
+    };
+  }
+
   /**
    * Search within specific documents
    */
@@ -147,15 +755,13 @@ export class SemanticSearchService {
     options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     try {
-      const allResults = await this.search(query, options);
-      
-      // Filter results to only include specified documents
-      const filteredResults = allResults.filter(result => 
-        documentIds.includes(result.documentId)
-      );
+      const results = await this.search(query, {
+        ...options,
+        filters: { ...options.filters, documentIds }
+      });
 
-      console.log(`Found ${filteredResults.length} results in specified documents`);
-      return filteredResults;
+      console.log(`Found ${results.length} results in specified documents`);
+      return results;
     } catch (error) {
       console.error('Document-specific search error:', error);
       throw new Error(`Document search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -163,25 +769,57 @@ export class SemanticSearchService {
   }
 
   /**
-   * Generate embedding for text using OpenAI
+   * Build a predicate over document IDs for the given filters, or null when nothing is filtered.
+   * Filters are resolved against document metadata once per query, so the vector and keyword
+   * scans only do a set lookup per chunk.
    */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      // Return a mock embedding for development
-      console.warn('⚠️  OpenAI not available, using mock embedding');
-      return new Array(1536).fill(0).map(() => Math.random() - 0.5);
-    }
+  private buildDocumentFilter(filters?: DocumentSearchFilters): ((documentId: string) => boolean) | null {
+    if (!filters) return null;
 
-    try {
-      // Truncate text if it's too long (OpenAI has limits)
-      const truncatedText = text.length > 8000 ? text.substring(0, 8000) : text;
+    const hasFilter = Object.values(filters).some(value =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+    );
+    if (!hasFilter) return null;
 
-      const response = await this.openai.embeddings.create({
-        model: this.EMBEDDING_MODEL,
-        input: truncatedText,
-      });
+    const documentIds = filters.documentIds?.length ? new Set(filters.documentIds.map(String)) : null;
+    const tags = filters.tags?.length ? filters.tags.map(tag => tag.toLowerCase()) : null;
+    const fileTypes = filters.fileType
+      ? (Array.isArray(filters.fileType) ? filters.fileType : [filters.fileType])
+          .map(type => (type.startsWith('.') ? type : `.${type}`).toLowerCase())
+      : null;
+    const uploadedAfter = filters.uploadedAfter ? new Date(filters.uploadedAfter).getTime() : null;
+    // A date without a time includes the whole day, so "uploaded before 2026-10-19" keeps that day's uploads
+    const uploadedBefore = filters.uploadedBefore
+      ? new Date(filters.uploadedBefore).getTime() + (DATE_ONLY.test(filters.uploadedBefore) ? DAY_MS - 1 : 0)
+      : null;
+
+    const allowed = new Set<string>();
+    for (const document of this.documentIndex.values()) {
+      if (documentIds && !documentIds.has(document.id)) continue;
+      if (tags && !document.tags.some(tag => tags.includes(tag.toLowerCase()))) continue;
+      if (fileTypes && !fileTypes.includes((document.metadata.fileType || '').toLowerCase())) continue;
+      if (filters.sessionId && document.sessionId !== filters.sessionId) continue;
+      if (filters.userId && document.userId !== filters.userId) continue;
+
+      if (uploadedAfter !== null || uploadedBefore !== null) {
+        const uploaded = new Date(document.uploadDate ?? document.metadata.extractedAt).getTime();
+        if (uploadedAfter !== null && uploaded < uploadedAfter) continue;
+        if (uploadedBefore !== null && uploaded > uploadedBefore) continue;
+      }
+
+      allowed.add(document.id);
+    }
 
-      return response.data[0].embedding;
+    return documentId => allowed.has(documentId);
+  }
+
+  /**
+   * Generate embedding for text using the configured provider
+   */
+  private async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      const [embedding] = await this.embedder.embed([text]);
+      return embedding;
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw new Error(`Embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -219,11 +857,21 @@ export class SemanticSearchService {
   /**
    * Remove document from index
    */
-  removeDocument(documentId: string): void {
+  async removeDocument(documentId: string): Promise<void> {
+    await this.initialize();
+
     // Remove document metadata
     this.documentIndex.delete(documentId);
+    this.removeEmbeddings(documentId);
+
+    await this.store.removeDocument(documentId);
+    console.log(`Removed document ${documentId} from semantic search index`);
+  }
 
-    // Remove all embeddings for this document
+  /**
+   * Remove all in-memory embeddings and keyword postings for a document
+   */
+  private removeEmbeddings(documentId: string): void {
     const embeddingsToRemove: string[] = [];
     for (const [id, embedding] of this.embeddings.entries()) {
       if (embedding.metadata.documentId === documentId) {
@@ -231,8 +879,11 @@ export class SemanticSearchService {
       }
     }
 
-    embeddingsToRemove.forEach(id => this.embeddings.delete(id));
-    console.log(`Removed document ${documentId} from semantic search index`);
+    embeddingsToRemove.forEach(id => {
+      this.embeddings.delete(id);
+      this.keywordIndex.remove(id);
+      this.annIndex?.remove(id);
+    });
   }
 
   /**
@@ -242,6 +893,7 @@ export class SemanticSearchService {
     totalDocuments: number;
     totalEmbeddings: number;
     totalChunks: number;
+    embeddingCache: EmbeddingBatcherStats;
   } {
     const totalDocuments = this.documentIndex.size;
     const totalEmbeddings = this.embeddings.size;
@@ -251,16 +903,22 @@ export class SemanticSearchService {
     return {
       totalDocuments,
       totalEmbeddings,
-      totalChunks
+      totalChunks,
+      embeddingCache: this.embedder.getStats()
     };
   }
 
   /**
    * Clear entire index
    */
-  clearIndex(): void {
+  async clearIndex(): Promise<void> {
+    await this.initialize();
+
     this.embeddings.clear();
     this.documentIndex.clear();
+    this.keywordIndex.clear();
+    this.annIndex?.clear();
+    await this.store.clear();
     console.log('Semantic search index cleared');
   }
 
@@ -289,103 +947,257 @@ export class SemanticSearchService {
     query: string, 
     options: SearchOptions = {}
   ): Promise<SearchResult[]> {
+    // Syntax errors go back to the caller instead of falling back to a plain search. Questions from chat
+    // and rewritten queries are plain text, where quotes or a capitalised "OR" carry no operator meaning.
+    const parsed = options.booleanSyntax ? parseSearchQuery(query) : null;
+
     try {
-      // Perform semantic search
-      const semanticResults = await this.search(query, options);
-      
-      // Perform keyword search
-      const keywordResults = this.keywordSearch(query, options);
+      await this.initialize();
+
+      const maxResults = options.maxResults || this.DEFAULT_MAX_RESULTS;
+
+      if (parsed?.structured) {
+        return await this.booleanSearch(parsed, options, maxResults);
+      }
+
+      const semanticWeight = options.semanticWeight ?? 1;
+      const keywordWeight = options.keywordWeight ?? 1;
+
+      // In multi-query mode every paraphrase gets its own semantic and keyword ranking, all fused together
+      const mode = options.retrievalMode || 'standard';
+      const queries = mode === 'multi-query' ? await this.expandQuery(query, options.queryVariants) : [query];
+
+      const rankings: RankedList[] = [];
+      for (const searchQuery of queries) {
+        // Retrieve deeper candidate lists than requested so fusion has overlap to work with.
+        // Diversification happens once, after fusion and reranking.
+        const semanticResults = await this.search(searchQuery, {
+          ...options,
+          maxResults: Math.max(maxResults * 3, this.SEMANTIC_CANDIDATES),
+          mmr: false,
+          suppressOverlap: false,
+          retrievalMode: mode === 'multi-query' ? 'standard' : mode
+        });
+        rankings.push({ results: semanticResults, signal: 'semantic', weight: semanticWeight });
+
+        // Perform keyword search
+        const keywordResults = this.keywordSearch(searchQuery, options);
+        rankings.push({ results: keywordResults, signal: 'keyword', weight: keywordWeight });
+      }
       
       // Combine and rank results
-      const combinedResults = this.combineSearchResults(semanticResults, keywordResults);
-      
-      return combinedResults.slice(0, options.maxResults || this.DEFAULT_MAX_RESULTS);
+      const combinedResults = this.combineSearchResults(rankings, options);
+      return await this.finalizeResults(query, combinedResults, options, maxResults);
     } catch (error) {
       console.error('Hybrid search error:', error);
       // Fallback to semantic search only
-      return await this.search(query, options);
+      return await this.search(parsed?.structured ? parsed.text : query, options);
     }
   }
 
   /**
-   * Simple keyword-based search
+   * Rerank and diversify fused results, then cut them to the requested size
    */
-  private keywordSearch(query: string, options: SearchOptions = {}): SearchResult[] {
-    const queryLower = query.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter(word => word.length > 2);
-    const results: SearchResult[] = [];
+  private async finalizeResults(
+    query: string,
+    combinedResults: SearchResult[],
+    options: SearchOptions,
+    maxResults: number
+  ): Promise<SearchResult[]> {
+    let rankedResults = combinedResults;
+    const rerankMethod = options.rerank || (process.env.RERANKER as RerankMethod) || 'none';
+    if (rerankMethod !== 'none') {
+      rankedResults = await this.rerank(query, combinedResults, rerankMethod, options.rerankTopN, maxResults);
+    }
 
-    for (const embedding of this.embeddings.values()) {
-      const contentLower = embedding.metadata.content.toLowerCase();
-      let score = 0;
+    if (this.isDiversifying(options)) {
+      return this.diversifyResults(rankedResults, options, maxResults);
+    }
 
-      // Exact phrase match
-      if (contentLower.includes(queryLower)) {
-        score += 10;
-      }
+    return rankedResults.slice(0, maxResults);
+  }
 
-      // Individual word matches
-      for (const word of queryWords) {
-        if (contentLower.includes(word)) {
-          score += 2;
-        }
+  /**
+   * Search with boolean query syntax. The query decides which chunks match; the words and phrases
+   * it asks for then rank the matches with the usual semantic and keyword fusion.
+   */
+  private async booleanSearch(parsed: ParsedQuery, options: SearchOptions, maxResults: number): Promise<SearchResult[]> {
+    const matching = this.evaluateBooleanQuery(parsed.root, options);
+    console.log(`Boolean query matched ${matching.size} chunks`);
+    if (matching.size === 0) return [];
+
+    // Metadata-only queries such as "tag:finance type:pdf" have nothing to rank by
+    if (!parsed.text) {
+      return Array.from(matching)
+        .slice(0, maxResults)
+        .map(key => this.toSearchResult(this.embeddings.get(key), 1));
+    }
+
+    const queryEmbedding = await this.generateEmbedding(parsed.text);
+    const semanticResults = Array.from(matching)
+      .map(key => this.embeddings.get(key))
+      .filter(embedding => embedding.model === this.embeddingProvider.model)
+      .map(embedding => ({ embedding, similarity: this.calculateCosineSimilarity(queryEmbedding, embedding.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, Math.max(maxResults * 3, this.SEMANTIC_CANDIDATES))
+      .map(({ embedding, similarity }) => this.toSearchResult(embedding, similarity));
+
+    const keywordMatches = this.keywordIndex.searchTerms(Array.from(new Set(analyzeTerms(parsed.text))), {
+      limit: this.KEYWORD_CANDIDATES,
+      filter: key => matching.has(key)
+    });
+
+    const combinedResults = this.combineSearchResults([
+      { results: semanticResults, signal: 'semantic', weight: options.semanticWeight ?? 1 },
+      { results: this.toKeywordResults(keywordMatches), signal: 'keyword', weight: options.keywordWeight ?? 1 }
+    ], options);
+
+    return this.finalizeResults(parsed.text, combinedResults, options, maxResults);
+  }
+
+  /**
+   * Keys of the indexed chunks that satisfy a boolean query and the search filters
+   */
+  private evaluateBooleanQuery(root: QueryNode, options: SearchOptions): Set<string> {
+    const isAllowed = this.buildDocumentFilter(options.filters);
+    const keys = new Set<string>();
+    for (const [key, embedding] of this.embeddings) {
+      if (!isAllowed || isAllowed(embedding.metadata.documentId)) {
+        keys.add(key);
       }
+    }
 
-      if (score > 0) {
-        const document = this.documentIndex.get(embedding.metadata.documentId);
-        
-        results.push({
-          documentId: embedding.metadata.documentId,
-          chunkId: embedding.metadata.chunkId,
-          content: embedding.metadata.content,
-          similarity: score / 20, // Normalize to 0-1 range
-          metadata: {
-            documentName: document?.name || 'Unknown Document',
-            tags: embedding.metadata.tags,
-            wordCount: embedding.metadata.content.split(/\s+/).length
-          }
+    return evaluateQuery(root, {
+      index: this.keywordIndex,
+      keys,
+      matchesField: (key, field) => {
+        const document = this.documentIndex.get(this.embeddings.get(key)?.metadata.documentId);
+        return !!document && matchesField(field, {
+          tags: document.tags,
+          fileType: document.metadata.fileType,
+          uploadDate: document.uploadDate ?? document.metadata.extractedAt
         });
       }
+    });
+  }
+
+  /**
+   * Reorder the top fused candidates with a second-stage reranker, returning the reranked candidates.
+   * If the reranker fails the fused order is kept, so search never breaks because of it.
+   */
+  private async rerank(
+    query: string,
+    results: SearchResult[],
+    method: RerankMethod,
+    topN: number | undefined,
+    maxResults: number
+  ): Promise<SearchResult[]> {
+    const reranker = this.getReranker(method);
+    if (!reranker) {
+      return results;
     }
 
-    return results.sort((a, b) => b.similarity - a.similarity);
+    const candidates = results.slice(0, Math.max(topN ?? this.DEFAULT_RERANK_TOP_N, maxResults));
+
+    try {
+      const reranked = await rerankResults(reranker, query, candidates);
+      console.log(`Reranked ${candidates.length} candidates with ${reranker.name} reranker`);
+      return reranked;
+    } catch (error) {
+      console.warn(`⚠️  ${reranker.name} reranking failed, keeping fused order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return results;
+    }
+  }
+
+  private getReranker(method: RerankMethod): Reranker | null {
+    if (!this.rerankers.has(method)) {
+      this.rerankers.set(method, createReranker(method));
+    }
+    return this.rerankers.get(method);
+  }
+
+  /**
+   * BM25 keyword search over the inverted index
+   */
+  private keywordSearch(query: string, options: SearchOptions = {}): SearchResult[] {
+    const isAllowed = this.buildDocumentFilter(options.filters);
+    const matches = this.keywordIndex.search(query, {
+      limit: this.KEYWORD_CANDIDATES,
+      fuzzy: options.fuzzy ?? true,
+      filter: isAllowed
+        ? key => {
+            const embedding = this.embeddings.get(key);
+            return !!embedding && isAllowed(embedding.metadata.documentId);
+          }
+        : undefined
+    });
+    return this.toKeywordResults(matches);
+  }
+
+  /**
+   * Convert BM25 matches into search results
+   */
+  private toKeywordResults(matches: KeywordMatch[]): SearchResult[] {
+    if (matches.length === 0) return [];
+
+    // BM25 scores are unbounded, so scale them against the best match for this query
+    const topScore = matches[0].score;
+
+    return matches
+      .map((match, index): SearchResult | null => {
+        const embedding = this.embeddings.get(match.key);
+        if (!embedding) return null;
+
+        return {
+          ...this.toSearchResult(embedding, topScore > 0 ? match.score / topScore : 0),
+          ranking: {
+            keyword: { rank: index + 1, score: match.score },
+            fusedScore: 0
+          }
+        };
+      })
+      .filter((result): result is SearchResult => result !== null);
   }
 
   /**
-   * Combine semantic and keyword search results
+   * Combine semantic and keyword rankings with weighted reciprocal rank fusion.
+   * Ranks are used instead of raw scores because cosine similarity and BM25 are on different scales,
+   * so a chunk ranked well by both signals ends up above one that only a single signal likes.
+   * When a signal contributes several rankings (multi-query), each result keeps its best rank for it.
    */
-  private combineSearchResults(
-    semanticResults: SearchResult[], 
-    keywordResults: SearchResult[]
-  ): SearchResult[] {
+  private combineSearchResults(rankings: RankedList[], options: SearchOptions = {}): SearchResult[] {
+    const k = options.rrfK ?? this.DEFAULT_RRF_K;
     const combined = new Map<string, SearchResult>();
 
-    // Add semantic results with weight 0.7
-    semanticResults.forEach(result => {
-      const key = `${result.documentId}_${result.chunkId}`;
-      combined.set(key, {
-        ...result,
-        similarity: result.similarity * 0.7
+    rankings.forEach(({ results, signal, weight }) => {
+      results.forEach((result, index) => {
+        const key = `${result.documentId}_${result.chunkId}`;
+        const rank = index + 1;
+        const score = signal === 'keyword' ? result.ranking?.keyword?.score ?? result.similarity : result.similarity;
+
+        let entry = combined.get(key);
+        if (!entry) {
+          entry = { ...result, ranking: { fusedScore: 0 } };
+          combined.set(key, entry);
+        }
+
+        const current = entry.ranking[signal];
+        if (!current || rank < current.rank) {
+          entry.ranking[signal] = { rank, score };
+        }
+        entry.ranking.fusedScore += weight / (k + rank);
       });
     });
 
-    // Add keyword results with weight 0.3
-    keywordResults.forEach(result => {
-      const key = `${result.documentId}_${result.chunkId}`;
-      const existing = combined.get(key);
-      
-      if (existing) {
-        // Combine scores
-        existing.similarity = Math.max(existing.similarity, result.similarity * 0.3);
-      } else {
-        combined.set(key, {
-          ...result,
-          similarity: result.similarity * 0.3
-        });
-      }
-    });
+    // Scale so a chunk ranked first in every weighted ranking scores 1
+    const maxFusedScore = rankings.reduce((sum, ranking) => sum + ranking.weight, 0) / (k + 1);
 
-    return Array.from(combined.values()).sort((a, b) => b.similarity - a.similarity);
+    return Array.from(combined.values())
+      .map(result => ({
+        ...result,
+        similarity: maxFusedScore > 0 ? result.ranking.fusedScore / maxFusedScore : 0
+      }))
+      .sort((a, b) => b.ranking.fusedScore - a.ranking.fusedScore);
   }
 }
 
@@ -0,0 +1,63 @@
+import JSZip from "jszip";
+import { describe, it, expect } from "vitest";
+import { parseCsv, readXlsx, sheetsToBlocks } from "./spreadsheetParser";
+
+// Minimal workbook: a visible sheet with shared, inline, boolean, date and numeric cells, and a hidden sheet
+async function buildXlsx(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "xl/workbook.xml",
+    "<workbook><sheets><sheet name=\"Q1 &amp; Q2\" sheetId=\"1\" r:id=\"rId1\"/>" +
+      "<sheet name=\"Lookup\" sheetId=\"2\" state=\"hidden\" r:id=\"rId2\"/></sheets></workbook>",
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    "<Relationships><Relationship Id=\"rId1\" Target=\"worksheets/sheet1.xml\"/><Relationship Id=\"rId2\" Target=\"worksheets/sheet2.xml\"/></Relationships>",
+  );
+  zip.file("xl/sharedStrings.xml", "<sst><si><t>Region</t></si><si><r><t>Sales </t></r><r><t>total</t></r></si><si><t>North</t></si></sst>");
+  zip.file("xl/styles.xml", "<styleSheet><cellXfs count=\"2\"><xf numFmtId=\"0\"/><xf numFmtId=\"14\"/></cellXfs></styleSheet>");
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    "<worksheet><sheetData>" +
+      "<row r=\"1\"><c r=\"A1\" t=\"s\"><v>0</v></c><c r=\"B1\" t=\"s\"><v>1</v></c><c r=\"C1\" t=\"inlineStr\"><is><t>Closed</t></is></c><c r=\"D1\" t=\"inlineStr\"><is><t>Since</t></is></c></row>" +
+      "<row r=\"3\"><c r=\"A3\" t=\"s\"><v>2</v></c><c r=\"B3\"><v>1234.5600000000001</v></c><c r=\"C3\" t=\"b\"><v>0</v></c><c r=\"D3\" s=\"1\"><v>45292</v></c></row>" +
+      "<row r=\"4\"><c r=\"B4\"><v>7</v></c></row>" +
+      "</sheetData></worksheet>",
+  );
+  zip.file("xl/worksheets/sheet2.xml", "<worksheet><sheetData><row r=\"1\"><c r=\"A1\"><v>1</v></c></row></sheetData></worksheet>");
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("parseCsv", () => {
+  it("should handle quoted fields, embedded line breaks and the delimiter in use", () => {
+    expect(parseCsv("\uFEFFname;note\r\n\"Smith; J.\";\"said \"\"hi\"\"\nthen left\"\r\nLee;")).toEqual([
+      ["name", "note"],
+      ["Smith; J.", "said \"hi\"\nthen left"],
+      ["Lee", ""],
+    ]);
+  });
+});
+
+describe("readXlsx", () => {
+  it("should read the visible sheets with their values as displayed", async () => {
+    const sheets = await readXlsx(await buildXlsx());
+
+    expect(sheets).toEqual([
+      {
+        name: "Q1 & Q2",
+        rows: [
+          ["Region", "Sales total", "Closed", "Since"],
+          [],
+          ["North", "1234.56", "FALSE", "2024-01-01"],
+          ["", "7"],
+        ],
+      },
+    ]);
+    expect(sheetsToBlocks(sheets)).toEqual([
+      { type: "heading", text: "Q1 & Q2", level: 1 },
+      { type: "table-row", text: "Region | Sales total | Closed | Since" },
+      { type: "table-row", text: "North | 1234.56 | FALSE | 2024-01-01" },
+      { type: "table-row", text: " | 7" },
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+// Spreadsheets
+// Reads CSV/TSV files and XLSX workbooks into sheets of rows, and turns them into blocks: a heading per
+// workbook sheet followed by its rows as a table, the first non-empty row being the header. XLSX files
+// are zip archives of XML parts; only the parts with values are read (workbook, shared strings, number
+// formats and worksheets), so charts, formatting and formulas are ignored in favour of their cached values.
+
+import JSZip from 'jszip';
+import { TextBlock, decodeEntities } from './textStructure';
+
+export interface Sheet {
+  name: string;
+  rows: string[][];
+}
+
+// Delimiters a CSV file may use, picked by which occurs most in its first line
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+// Built-in number formats that display dates and times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+// Days from Excel's day 0 (1899-12-30, counting its fictitious 1900-02-29) and from 1904-01-01 to 1970-01-01
+const EPOCH_OFFSET_DAYS = 25569;
+const EPOCH_OFFSET_DAYS_1904 = 24107;
+
+/**
+ * Parse CSV text into rows. Quoted fields may contain delimiters, doubled quotes and line breaks.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the visible sheets of an XLSX workbook, in workbook order
+ */
+export async function readXlsx(data: Buffer): Promise<Sheet[]> {
+  const zip = await JSZip.loadAsync(data);
+  const readPart = async (name: string) => (await zip.file(name)?.async('string')) || '';
+
+  const workbook = await readPart('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an XLSX workbook');
+  }
+
+  const relationships = new Map<string, string>();
+  for (const match of (await readPart('xl/_rels/workbook.xml.rels')).matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attributes = xmlAttributes(match[1]);
+    if (attributes.Id && attributes.Target) relationships.set(attributes.Id, attributes.Target);
+  }
+
+  const sharedStrings = Array.from((await readPart('xl/sharedStrings.xml')).matchAll(/<si>([\s\S]*?)<\/si>/g), match => richText(match[1]));
+  const dateStyles = readDateStyles(await readPart('xl/styles.xml'));
+  const epochOffset = /<workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(workbook) ? EPOCH_OFFSET_DAYS_1904 : EPOCH_OFFSET_DAYS;
+
+  const sheets: Sheet[] = [];
+  for (const match of workbook.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const attributes = xmlAttributes(match[1]);
+    if (attributes.state === 'hidden' || attributes.state === 'veryHidden') continue;
+
+    const target = relationships.get(attributes['r:id']);
+    if (!target) continue;
+    const partName = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+    const rows = readWorksheet(await readPart(partName), sharedStrings, dateStyles, epochOffset);
+    sheets.push({ name: decodeEntities(attributes.name || `Sheet ${sheets.length + 1}`), rows });
+  }
+
+  return sheets;
+}
+
+/**
+ * Read a CSV, TSV or XLSX file into blocks
+ */
+export async function spreadsheetToBlocks(data: Buffer, fileExtension: string): Promise<TextBlock[]> {
+  if (fileExtension === '.xlsx') return sheetsToBlocks(await readXlsx(data));
+  // A delimited file is a single sheet without a name
+  return sheetsToBlocks([{ name: '', rows: parseCsv(data.toString('utf-8'), fileExtension === '.tsv' ? '\t' : undefined) }]);
+}
+
+/**
+ * Turn sheets into blocks: each sheet's name as a heading (when named) and its rows as a table. Empty
+ * rows and trailing empty cells are dropped; empty cells between values are kept so every row lines
+ * up with the header.
+ */
+export function sheetsToBlocks(sheets: Sheet[]): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  sheets.forEach(sheet => {
+    const rows = sheet.rows
+      .map(row => row.map(cell => cell.replace(/\s+/g, ' ').trim()))
+      .map(row => row.slice(0, lastIndexWhere(row, cell => cell !== '') + 1))
+      .filter(row => row.length > 0);
+    if (rows.length === 0) return;
+
+    if (sheet.name) blocks.push({ type: 'heading', text: sheet.name, level: 1 });
+    rows.forEach(row => blocks.push({ type: 'table-row', text: row.join(' | ') }));
+  });
+
+  return blocks;
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const counts = CSV_DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CSV_DELIMITERS[best] : ',';
+}
+
+/**
+ * Values of a worksheet as rows of text, placed by their cell references so gaps stay gaps
+ */
+function readWorksheet(xml: string, sharedStrings: string[], dateStyles: Set<number>, epochOffset: number): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(xmlAttributes(rowMatch[1]).r) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = xmlAttributes(cellMatch[1]);
+      const column = attributes.r ? columnIndex(attributes.r) : cells.length;
+      const body = cellMatch[2] || '';
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      switch (attributes.t) {
+        case 's':
+          text = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          text = richText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+          break;
+        case 'b':
+          text = value === '1' ? 'TRUE' : value === '0' ? 'FALSE' : '';
+          break;
+        case 'str':
+        case 'e':
+          text = value ? decodeEntities(value) : '';
+          break;
+        default:
+          if (value !== undefined && value !== '') {
+            text = dateStyles.has(Number(attributes.s)) ? formatDate(Number(value), epochOffset) : formatNumber(value);
+          }
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = text;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  return rows;
+}
+
+/**
+ * Indexes into cellXfs (the s attribute of cells) whose number format shows a date or time
+ */
+function readDateStyles(xml: string): Set<number> {
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const attributes = xmlAttributes(match[1]);
+    // Date codes use d, m, y, h or s outside quoted literals and bracketed colours or conditions
+    const code = decodeEntities(attributes.formatCode || '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dmyhs]/i.test(code)) customDateFormats.add(Number(attributes.numFmtId));
+  }
+
+  const styles = new Set<number>();
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g)).forEach((match, index) => {
+    const formatId = Number(xmlAttributes(match[1]).numFmtId);
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) styles.add(index);
+  });
+  return styles;
+}
+
+/**
+ * ISO date, with the time when the serial has a fraction of a day
+ */
+function formatDate(serial: number, epochOffset: number): string {
+  if (!Number.isFinite(serial)) return '';
+  const date = new Date(Math.round((serial - epochOffset) * 86400) * 1000);
+  const iso = date.toISOString();
+  if (Number.isInteger(serial)) return iso.slice(0, 10);
+  return serial < 1 ? iso.slice(11, 19) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+/**
+ * Numbers at the 15 significant digits Excel displays, without binary floating point noise
+ */
+function formatNumber(value: string): string {
+  const number = Number(value);
+  return Number.isFinite(number) ? String(parseFloat(number.toPrecision(15))) : value;
+}
+
+/**
+ * Text of a shared or inline string: its runs, without phonetic guides
+ */
+function richText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeEntities(match[1])).join('');
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function lastIndexWhere<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
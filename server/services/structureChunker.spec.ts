@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { chunkByStructure } from "./structureChunker";
+import { getTokenizer } from "./tokenizer";
+
+const tokenizer = getTokenizer("text-embedding-3-small");
+
+const chunk = (content: string, chunkSize: number, overlapSize = 0, maxTokens = 10000) =>
+  chunkByStructure(content, { chunkSize, overlapSize, maxTokens, countTokens: (text) => tokenizer.count(text) }).map((span) => [
+    span.section,
+    content.slice(span.start, span.end),
+  ]);
+
+describe("chunkByStructure", () => {
+  it("should start a chunk at every heading and label it with the heading path", () => {
+    const content = "# Guide\n\nIntro.\n\n## Install\n\nRun the installer.\n\n### Linux\n\nUse the package.\n\n## Usage\n\nStart it.";
+
+    expect(chunk(content, 50)).toEqual([
+      ["Guide", "# Guide\n\nIntro."],
+      ["Guide > Install", "## Install\n\nRun the installer."],
+      ["Guide > Install > Linux", "### Linux\n\nUse the package."],
+      ["Guide > Usage", "## Usage\n\nStart it."],
+    ]);
+  });
+
+  it("should break between sentences and overlap by whole sentences", () => {
+    const content = "Dr. Lee checks the pumps. Valves are tested e.g. weekly. Filters are replaced monthly.";
+
+    expect(chunk(content, 10, 5)).toEqual([
+      [undefined, "Dr. Lee checks the pumps. Valves are tested e.g. weekly."],
+      [undefined, "Valves are tested e.g. weekly. Filters are replaced monthly."],
+    ]);
+  });
+
+  it("should move a paragraph to the next chunk rather than split it once the chunk is half full", () => {
+    const content = "One two three four five six.\n\nSeven eight nine. Ten eleven twelve.\n\n- thirteen\n- fourteen";
+
+    expect(chunk(content, 10)).toEqual([
+      [undefined, "One two three four five six."],
+      [undefined, "Seven eight nine. Ten eleven twelve.\n\n- thirteen\n- fourteen"],
+    ]);
+  });
+
+  it("should split a sentence longer than a chunk into word windows", () => {
+    const content = "a b c d e f g h i j";
+
+    expect(chunk(content, 4)).toEqual([
+      [undefined, "a b c d"],
+      [undefined, "e f g h"],
+      [undefined, "i j"],
+    ]);
+  });
+
+  it("should keep chunks within the token limit when words are long", () => {
+    const content = "Internationalization globalization localization. Short words fit.";
+    const spans = chunkByStructure(content, { chunkSize: 100, overlapSize: 0, maxTokens: 6, countTokens: (text) => tokenizer.count(text) });
+
+    expect(spans.length).toBeGreaterThan(1);
+    spans.forEach((span) => expect(tokenizer.count(content.slice(span.start, span.end))).toBeLessThanOrEqual(6));
+  });
+
+  it("should split tables into groups of whole rows that repeat the header row", () => {
+    const content = "# Prices\n\nItem | Cost\nTea | 2\nCoffee | 3\nCake | 4\n\nPrices include tax.";
+    const tableStart = content.indexOf("Item");
+    const tables = [{ start: tableStart, end: content.indexOf("\n\nPrices"), headerEnd: content.indexOf("\nTea") }];
+    const spans = chunkByStructure(content, { chunkSize: 9, overlapSize: 0, maxTokens: 10000, countTokens: (text) => tokenizer.count(text), tables });
+
+    expect(spans.map((span) => [span.header && content.slice(span.header.start, span.header.end), content.slice(span.start, span.end)])).toEqual([
+      [undefined, "# Prices\n\nItem | Cost\nTea | 2"],
+      ["Item | Cost", "Coffee | 3\nCake | 4"],
+      [undefined, "Prices include tax."],
+    ]);
+  });
+});
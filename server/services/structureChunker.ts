@@ -0,0 +1,291 @@
+// Structure-aware chunking
+// Splits text into pieces that should stay whole (headings, list items, sentences, table rows) and packs them into
+// chunks of up to chunkSize words and maxTokens tokens. A heading always starts a new chunk, so every chunk belongs to one
+// section and is labelled with its heading path. Within a section, chunks end at paragraph boundaries
+// where that does not leave them too small, and overlap by whole sentences. Tables are split into groups
+// of whole rows, each chunk after the first starting with the table's header row again.
+
+import { HeadingSpan, TableSpan, detectHeadings, headingText } from './textStructure';
+
+export interface StructureChunkOptions {
+  chunkSize: number;         // words per chunk
+  overlapSize: number;       // words of trailing sentences repeated at the start of the next chunk
+  maxTokens: number;         // token limit per chunk
+  countTokens: (text: string) => number;
+  headings?: HeadingSpan[];  // headings known from the source format; detected from the text when omitted
+  tables?: TableSpan[];      // tables known from the source format
+}
+
+export interface ChunkSpan {
+  start: number;     // character offsets in the content
+  end: number;
+  section?: string;  // heading path, e.g. "Installation > Requirements"
+  header?: { start: number; end: number };  // table header row that precedes the chunk's rows
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  words: number;
+  tokens: number;
+  paragraphStart: boolean;  // first unit of a paragraph or list
+  heading?: HeadingSpan;
+  table?: TableSpan;         // set on table rows
+  tableHeader?: boolean;     // the table's first row
+}
+
+interface Run {
+  type: 'paragraph' | 'list-item';
+  start: number;
+  end: number;
+  paragraphStart: boolean;
+}
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•▪◦]|\d{1,3}[.)]|[a-z][.)])\s+/;
+// Whitespace after sentence-ending punctuation, before something that can start a sentence
+const SENTENCE_BREAK = /(?<=[.!?]["')\]]*)\s+(?=["'(\[]?[\p{Lu}\d])/gu;
+const ABBREVIATION = /(?:^|[\s(])(?:e\.g|i\.e|etc|vs|cf|mr|mrs|ms|dr|prof|fig|figs|no|nos|st|inc|ltd|co|jr|sr|approx|dept|vol|p|pp|\p{L})\.$/iu;
+
+/**
+ * Split content into chunks along its structure
+ */
+export function chunkByStructure(content: string, options: StructureChunkOptions): ChunkSpan[] {
+  const tables = options.tables ?? [];
+  // Table rows are never headings, however short they are
+  const headings = (options.headings ?? detectHeadings(content))
+    .filter(heading => !tables.some(table => heading.start >= table.start && heading.start < table.end));
+  const units = splitUnits(content, headings, tables, options.countTokens).flatMap(unit => splitOversizedUnit(content, unit, options));
+
+  const chunks: ChunkSpan[] = [];
+  const path: Array<{ level: number; text: string }> = [];
+  let current: Unit[] = [];
+  let header: Unit | null = null;       // header row repeated before the current chunk's rows
+  let tableHeader: Unit | null = null;  // header row of the table being chunked
+
+  const wordsIn = (list: Unit[]) => list.reduce((sum, unit) => sum + unit.words, 0);
+  // Counts one token for the whitespace between units, which may or may not merge into a neighbour
+  const tokensIn = (list: Unit[]) => list.reduce((sum, unit) => sum + unit.tokens + 1, 0);
+  const hasText = () => current.some(unit => !unit.heading);
+  const fits = (list: Unit[], next: Pick<Unit, 'words' | 'tokens'>) =>
+    list.length === 0 || (wordsIn(list) + next.words <= options.chunkSize && tokensIn(list) + next.tokens <= options.maxTokens);
+
+  const emit = () => {
+    if (current.length === 0) return;
+    const section = path.map(heading => heading.text).join(' > ');
+    chunks.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      ...(section && { section }),
+      ...(header && { header: { start: header.start, end: header.end } })
+    });
+  };
+
+  // End the current chunk and start an empty one, optionally repeating a table header
+  const restart = (repeatedHeader: Unit | null = null) => {
+    emit();
+    current = [];
+    header = repeatedHeader;
+  };
+
+  // End the current chunk, carrying its last sentences over as overlap when they leave room for the next unit
+  const breakBefore = (next: Unit) => {
+    emit();
+    header = null;
+    const carry: Unit[] = [];
+    for (let i = current.length - 1; i > 0 && !current[i].heading; i--) {
+      if (wordsIn(carry) + current[i].words > options.overlapSize) break;
+      carry.unshift(current[i]);
+    }
+    current = fits(carry, next) ? carry : [];
+  };
+
+  units.forEach((unit, index) => {
+    if (unit.table) {
+      if (unit.tableHeader) {
+        // A table starts a new chunk unless all of it fits in the current one
+        tableHeader = unit;
+        const rows = tableAt(units, index);
+        if (hasText() && !fits(current, { words: wordsIn(rows), tokens: tokensIn(rows) - 1 })) restart();
+      } else if (!fits(header ? [header, ...current] : current, unit)) {
+        restart(tableHeader);
+      }
+      current.push(unit);
+      return;
+    }
+
+    // Rows are not mixed with the text after their table
+    if (current.some(row => row.table)) restart();
+
+    if (unit.heading) {
+      // Consecutive headings stay together with the text that follows them
+      if (hasText()) restart();
+      while (path.length > 0 && path[path.length - 1].level >= unit.heading.level) path.pop();
+      path.push({ level: unit.heading.level, text: headingText(content, unit.heading) });
+      current.push(unit);
+      return;
+    }
+
+    if (hasText()) {
+      if (!fits(current, unit)) {
+        breakBefore(unit);
+      } else if (unit.paragraphStart && wordsIn(current) >= options.chunkSize / 2) {
+        // Start a paragraph in a new chunk rather than splitting it, unless the chunk is still small
+        const paragraph = paragraphAt(units, index);
+        if (!fits(current, { words: wordsIn(paragraph), tokens: tokensIn(paragraph) - 1 })) {
+          breakBefore(unit);
+        }
+      }
+    }
+    current.push(unit);
+  });
+  emit();
+
+  return chunks;
+}
+
+/**
+ * Split content into headings, list items, table rows and sentences
+ */
+function splitUnits(content: string, headings: HeadingSpan[], tables: TableSpan[], countTokens: (text: string) => number): Unit[] {
+  const headingsByStart = new Map(headings.map(heading => [heading.start, heading]));
+  const sortedTables = [...tables].sort((a, b) => a.start - b.start);
+  const units: Unit[] = [];
+  let tableIndex = 0;
+  let run: Run | null = null;
+  let previousType: Run['type'] | 'heading' | null = null;
+
+  const flush = () => {
+    if (!run) return;
+    if (run.type === 'list-item') {
+      units.push(unit(content, countTokens, run.start, run.end, run.paragraphStart));
+    } else {
+      sentences(content, run.start, run.end).forEach((sentence, index) =>
+        units.push(unit(content, countTokens, sentence.start, sentence.end, run.paragraphStart && index === 0))
+      );
+    }
+    previousType = run.type;
+    run = null;
+  };
+
+  let lineStart = 0;
+  for (const text of content.split('\n')) {
+    const start = lineStart + (text.length - text.trimStart().length);
+    const end = lineStart + text.trimEnd().length;
+    lineStart += text.length + 1;
+
+    if (end <= start) {
+      // Blank line: whatever follows starts a new paragraph, or a new list
+      flush();
+      previousType = null;
+      continue;
+    }
+
+    while (tableIndex < sortedTables.length && sortedTables[tableIndex].end <= start) tableIndex++;
+    const table = tableIndex < sortedTables.length && sortedTables[tableIndex].start <= start ? sortedTables[tableIndex] : undefined;
+
+    const heading = headingsByStart.get(start);
+    if (table) {
+      flush();
+      units.push({ ...unit(content, countTokens, start, end, start === table.start), table, tableHeader: start === table.start });
+      previousType = null;
+    } else if (heading) {
+      flush();
+      units.push({ ...unit(content, countTokens, start, end, true), heading });
+      previousType = 'heading';
+    } else if (LIST_ITEM_PATTERN.test(text)) {
+      flush();
+      run = { type: 'list-item', start, end, paragraphStart: previousType !== 'list-item' };
+    } else if (run) {
+      // Continuation of the current paragraph or list item
+      run.end = end;
+    } else {
+      run = { type: 'paragraph', start, end, paragraphStart: true };
+    }
+  }
+  flush();
+
+  return units;
+}
+
+/**
+ * Sentence spans between start and end, skipping breaks after common abbreviations and initials
+ */
+function sentences(content: string, start: number, end: number): Array<{ start: number; end: number }> {
+  const text = content.slice(start, end);
+  const spans: Array<{ start: number; end: number }> = [];
+  let sentenceStart = 0;
+
+  for (const match of text.matchAll(SENTENCE_BREAK)) {
+    if (ABBREVIATION.test(text.slice(Math.max(sentenceStart, match.index - 10), match.index))) continue;
+    spans.push({ start: start + sentenceStart, end: start + match.index });
+    sentenceStart = match.index + match[0].length;
+  }
+  spans.push({ start: start + sentenceStart, end });
+
+  return spans;
+}
+
+/**
+ * The units of the paragraph or list starting at index
+ */
+function paragraphAt(units: Unit[], index: number): Unit[] {
+  let end = index + 1;
+  while (end < units.length && !units[end].paragraphStart && !units[end].heading) end++;
+  return units.slice(index, end);
+}
+
+/**
+ * The rows of the table starting at index
+ */
+function tableAt(units: Unit[], index: number): Unit[] {
+  let end = index + 1;
+  while (end < units.length && units[end].table === units[index].table && !units[end].tableHeader) end++;
+  return units.slice(index, end);
+}
+
+/**
+ * Split a unit that would not fit in a chunk on its own into word windows
+ */
+function splitOversizedUnit(content: string, oversized: Unit, options: StructureChunkOptions): Unit[] {
+  if (oversized.words <= options.chunkSize && oversized.tokens <= options.maxTokens) {
+    return [oversized];
+  }
+
+  const pieces: Unit[] = [];
+  let piece: Unit | null = null;
+
+  for (const word of content.slice(oversized.start, oversized.end).matchAll(/\S+/g)) {
+    const start = oversized.start + word.index;
+    const end = start + word[0].length;
+    // Counted with its leading space, the way it is tokenized inside the text
+    const tokens = options.countTokens(` ${word[0]}`);
+
+    if (piece && (piece.words >= options.chunkSize || piece.tokens + tokens > options.maxTokens)) {
+      pieces.push(piece);
+      piece = null;
+    }
+    if (piece) {
+      piece.end = end;
+      piece.words++;
+      piece.tokens += tokens;
+    } else {
+      piece = {
+        ...oversized,
+        start,
+        end,
+        words: 1,
+        tokens,
+        paragraphStart: pieces.length === 0 && oversized.paragraphStart,
+        tableHeader: pieces.length === 0 && oversized.tableHeader
+      };
+    }
+  }
+  if (piece) pieces.push(piece);
+
+  return pieces;
+}
+
+function unit(content: string, countTokens: (text: string) => number, start: number, end: number, paragraphStart: boolean): Unit {
+  const text = content.slice(start, end);
+  return { start, end, words: (text.match(/\S+/g) || []).length, tokens: countTokens(text), paragraphStart };
+}
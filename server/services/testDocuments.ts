@@ -0,0 +1,18 @@
+import { IndexedDocument } from "./semanticSearch";
+
+// Fixtures shared by the search and vector store specs
+
+// A text document whose chunks are the given strings, 100 characters apart
+export const documentWithChunks = (id: string, chunks: string[]): IndexedDocument => ({
+  id,
+  name: `Document ${id}`,
+  content: chunks.join(" "),
+  chunks: chunks.map((content, index) => ({
+    id: String(index),
+    content,
+    metadata: { wordCount: content.split(" ").length, startIndex: index * 100, endIndex: index * 100 + 50 },
+  })),
+  metadata: { fileType: ".txt", extractedAt: new Date("2024-01-01") } as IndexedDocument["metadata"],
+  summary: "",
+  tags: [],
+});
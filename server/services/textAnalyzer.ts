@@ -0,0 +1,231 @@
+// Text analysis shared by the keyword index and query handling
+// Splits text into word tokens with character offsets, drops stopwords and applies Porter stemming
+
+export interface AnalyzedToken {
+  term: string;      // normalized, stemmed term
+  original: string;  // token as it appeared in the text
+  position: number;  // word position, counting stopwords so phrase gaps are preserved
+  start: number;     // character offset of the token in the text
+  end: number;
+}
+
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+  'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'would', 'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+/**
+ * Tokenize, normalize and stem text, keeping character offsets for each token
+ */
+export function analyze(text: string, options: { keepStopwords?: boolean } = {}): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const original = match[0];
+    const normalized = normalizeToken(original);
+    const currentPosition = position++;
+
+    if (!normalized) continue;
+    if (!options.keepStopwords && STOPWORDS.has(normalized)) continue;
+
+    tokens.push({
+      term: stem(normalized),
+      original,
+      position: currentPosition,
+      start: match.index,
+      end: match.index + original.length
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Analyze text and return only the terms
+ */
+export function analyzeTerms(text: string): string[] {
+  return analyze(text).map(token => token.term);
+}
+
+/**
+ * Lowercase, strip diacritics and possessive suffixes
+ */
+export function normalizeToken(token: string): string {
+  return token
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]s$/, '')
+    .replace(/['’]/g, '');
+}
+
+// Porter stemmer (M.F. Porter, 1980)
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences in the stem
+ */
+function measure(stemPart: string): number {
+  let count = 0;
+  let i = 0;
+  const length = stemPart.length;
+
+  while (i < length && isConsonant(stemPart, i)) i++;
+  while (i < length) {
+    while (i < length && !isConsonant(stemPart, i)) i++;
+    if (i >= length) break;
+    while (i < length && isConsonant(stemPart, i)) i++;
+    count++;
+  }
+
+  return count;
+}
+
+function containsVowel(stemPart: string): boolean {
+  for (let i = 0; i < stemPart.length; i++) {
+    if (!isConsonant(stemPart, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const length = word.length;
+  return length >= 2 && word[length - 1] === word[length - 2] && isConsonant(word, length - 1);
+}
+
+/**
+ * Consonant-vowel-consonant ending where the last consonant is not w, x or y
+ */
+function endsWithCvc(word: string): boolean {
+  const length = word.length;
+  if (length < 3) return false;
+  return isConsonant(word, length - 3) &&
+    !isConsonant(word, length - 2) &&
+    isConsonant(word, length - 1) &&
+    !'wxy'.includes(word[length - 1]);
+}
+
+function replaceSuffix(word: string, suffix: string, replacement: string, minMeasure: number): string | null {
+  if (!word.endsWith(suffix)) return null;
+  const stemPart = word.slice(0, word.length - suffix.length);
+  return measure(stemPart) > minMeasure ? stemPart + replacement : word;
+}
+
+/**
+ * Reduce an English word to its Porter stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (w.endsWith('ss')) { /* keep */ }
+  else if (w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: past tense and gerunds
+  let step1bExtra = false;
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith('ed') && containsVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    step1bExtra = true;
+  } else if (w.endsWith('ing') && containsVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    step1bExtra = true;
+  }
+
+  if (step1bExtra) {
+    if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+      w += 'e';
+    } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsWithCvc(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if (w.endsWith('y') && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Step 2: double suffixes
+  for (const [suffix, replacement] of STEP2_SUFFIXES) {
+    const result = replaceSuffix(w, suffix, replacement, 0);
+    if (result !== null) {
+      w = result;
+      break;
+    }
+  }
+
+  // Step 3: -ic-, -full, -ness
+  for (const [suffix, replacement] of STEP3_SUFFIXES) {
+    const result = replaceSuffix(w, suffix, replacement, 0);
+    if (result !== null) {
+      w = result;
+      break;
+    }
+  }
+
+  // Step 4: remaining suffixes on long stems
+  for (const suffix of STEP4_SUFFIXES) {
+    if (!w.endsWith(suffix)) continue;
+    const stemPart = w.slice(0, w.length - suffix.length);
+    if (measure(stemPart) > 1) w = stemPart;
+    break;
+  }
+  if (w.endsWith('ion')) {
+    const stemPart = w.slice(0, -3);
+    if (measure(stemPart) > 1 && /[st]$/.test(stemPart)) w = stemPart;
+  }
+
+  // Step 5a: final e
+  if (w.endsWith('e')) {
+    const stemPart = w.slice(0, -1);
+    const m = measure(stemPart);
+    if (m > 1 || (m === 1 && !endsWithCvc(stemPart))) w = stemPart;
+  }
+
+  // Step 5b: final double l
+  if (measure(w) > 1 && w.endsWith('ll')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
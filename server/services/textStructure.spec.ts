@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { blocksToText, detectHeadings, headingText, htmlToBlocks } from "./textStructure";
+
+describe("htmlToBlocks", () => {
+  it("should turn headings, paragraphs, nested lists and table rows into blocks", () => {
+    const blocks = htmlToBlocks(
+      "<h2>Scope &amp; goals</h2><p>First <strong>point</strong>.<br/>Second.</p>" +
+        "<ol><li><p>One</p></li><li>Two<ul><li>Detail</li></ul></li></ol>" +
+        "<table><tr><th>Name</th><th>Value</th></tr></table><script>ignored()</script>",
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading", text: "Scope & goals", level: 2 },
+      { type: "paragraph", text: "First point. Second." },
+      { type: "list-item", text: "One", level: 1, marker: "1." },
+      { type: "list-item", text: "Two", level: 1, marker: "2." },
+      { type: "list-item", text: "Detail", level: 2, marker: "-" },
+      { type: "table-row", text: "Name | Value" },
+    ]);
+  });
+
+  it("should drop page boilerplate and keep links", () => {
+    const blocks = htmlToBlocks(
+      "<html><head><title>Site</title></head><body><header><nav><a href=\"/\">Home</a></nav></header>" +
+        "<main><article><header><h1>Release notes</h1></header>" +
+        "<p>See the <a href=\"https://example.com/guide?a=1&amp;b=2\"> upgrade  guide </a> first.</p>" +
+        "<div role=\"navigation\">Previous | Next</div><p hidden>Draft</p><input type=\"text\"><p>Done.</p>" +
+        "</article></main><aside>Related posts</aside><footer>Copyright</footer></body></html>",
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading", text: "Release notes", level: 1 },
+      { type: "paragraph", text: "See the upgrade guide first.", links: [{ start: 8, end: 21, url: "https://example.com/guide?a=1&b=2" }] },
+      { type: "paragraph", text: "Done." },
+    ]);
+  });
+
+  it("should keep content wrapped in a form and drop only the form controls", () => {
+    const blocks = htmlToBlocks(
+      "<body><form action=\"/page.aspx\"><h1>Title</h1><p>Main text here.</p>" +
+        "<input type=\"hidden\" value=\"state\"><select><option>One</option></select><button>Save</button></form></body>",
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading", text: "Title", level: 1 },
+      { type: "paragraph", text: "Main text here." },
+    ]);
+  });
+
+  it("should record heading offsets when joining blocks into text", () => {
+    const { content, headings } = blocksToText(htmlToBlocks("<h1>Title</h1><p>Body.</p><h2>Part</h2><ul><li>a</li><li>b</li></ul>"));
+
+    expect(content).toBe("Title\n\nBody.\n\nPart\n\n- a\n- b");
+    expect(headings.map((heading) => [content.slice(heading.start, heading.end), heading.level])).toEqual([
+      ["Title", 1],
+      ["Part", 2],
+    ]);
+  });
+
+  it("should record link and table offsets when joining blocks into text", () => {
+    const { content, links, tables } = blocksToText(
+      htmlToBlocks(
+        "<ul><li><p>Read <a href=\"https://a.io\">this</a></p><ul><li><a href=\"https://b.io\">that</a></li></ul></li></ul>" +
+          "<table><tr><th>k</th><th>v</th></tr><tr><td>x</td><td>1</td></tr></table>",
+      ),
+    );
+
+    expect(content).toBe("- Read this\n  - that\n\nk | v\nx | 1");
+    expect(links.map((link) => [content.slice(link.start, link.end), link.url])).toEqual([
+      ["this", "https://a.io"],
+      ["that", "https://b.io"],
+    ]);
+    expect(tables.map((table) => [content.slice(table.start, table.end), content.slice(table.start, table.headerEnd)])).toEqual([
+      ["k | v\nx | 1", "k | v"],
+    ]);
+  });
+});
+
+describe("detectHeadings", () => {
+  it("should find Markdown, numbered, upper-case and stand-alone headings", () => {
+    const content = [
+      "Annual Report",
+      "",
+      "## Overview",
+      "Revenue grew this year.",
+      "",
+      "2.1 Regional results",
+      "Sales rose in every region.",
+      "",
+      "OUTLOOK",
+      "",
+      "Next steps",
+      "",
+      "We expect steady growth.",
+    ].join("\n");
+
+    const headings = detectHeadings(content);
+
+    expect(headings.map((heading) => [headingText(content, heading), heading.level])).toEqual([
+      ["Annual Report", 1],
+      ["Overview", 2],
+      ["2.1 Regional results", 2],
+      ["OUTLOOK", 1],
+      ["Next steps", 2],
+    ]);
+  });
+
+  it("should not treat sentences, list items or wrapped lines as headings", () => {
+    const content = "The pump must be\nchecked every week\nby the operator.\n\n- Check seals\n- Replace filters\n\nThis line ends with a period.\nClosing remark";
+
+    expect(detectHeadings(content)).toEqual([]);
+  });
+});
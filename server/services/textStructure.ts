@@ -0,0 +1,342 @@
+// Document structure for chunking
+// Extractors that know the structure of a document (DOCX styles, HTML tags, Markdown and RTF markup)
+// describe it as blocks, which are joined into plain text with the heading and link positions recorded.
+// For text without that information, headings are detected from Markdown syntax and layout: numbered,
+// upper-case or short stand-alone lines without closing punctuation.
+
+export interface HeadingSpan {
+  start: number;  // character offsets of the heading line in the document content
+  end: number;
+  level: number;  // 1 for top-level headings
+}
+
+export interface TableSpan {
+  start: number;      // character offsets of the table, one row per line
+  end: number;
+  headerEnd: number;  // end of the first row, which is taken as the header
+}
+
+export interface LinkSpan {
+  start: number;  // character offsets of the link text
+  end: number;
+  url: string;
+}
+
+export interface TextBlock {
+  type: 'heading' | 'paragraph' | 'list-item' | 'table-row';
+  text: string;
+  level?: number;      // heading level, or nesting depth of a list item
+  marker?: string;     // list item marker such as "-" or "3."
+  links?: LinkSpan[];  // offsets within the block text
+}
+
+export interface StructuredText {
+  content: string;
+  headings: HeadingSpan[];
+  links: LinkSpan[];
+  tables: TableSpan[];
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre', 'tr', 'section', 'article', 'header', 'footer', 'table', 'ul', 'ol', 'dt', 'dd', 'caption', 'figcaption']);
+// Never content: code, page chrome, form controls and embedded frames (a form itself often wraps the whole page)
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'nav', 'aside', 'button', 'select', 'textarea', 'dialog']);
+// Site banners and footers, unless they belong to an article or the main content
+const PAGE_CHROME_TAGS = new Set(['header', 'footer']);
+const LANDMARK_TAGS = new Set(['main', 'article']);
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'menu', 'menubar', 'dialog']);
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•▪◦]|\d{1,3}[.)]|[a-z][.)])\s+/;
+const CLOSING_PUNCTUATION = /[.,;:!?]["')\]]?$/;
+const MAX_HEADING_WORDS = 12;
+
+/**
+ * Convert HTML into blocks. Handles the markup produced by mammoth for DOCX files and ordinary web
+ * pages: headings, paragraphs, links, nested lists and tables (one block per row, cells separated by
+ * " | "). Page boilerplate is dropped: scripts and styles, navigation, forms, hidden elements, site
+ * headers and footers, and everything outside <main> when the page has one.
+ */
+export function htmlToBlocks(html: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  const mainOnly = /<main[\s>]/i.test(html);
+  let current: TextBlock | null = null;
+  let row: string[] | null = null;
+  let cell: string[] | null = null;
+  let link: { url: string; start: number } | null = null;
+  let skipping: { tag: string; depth: number } | null = null;
+  let mainDepth = 0;
+  let landmarkDepth = 0;
+
+  const flush = () => {
+    if (current) {
+      const { text, links } = normalizeInline(current.text, current.links);
+      const block: TextBlock = { ...current, text };
+      if (links.length > 0) block.links = links;
+      else delete block.links;
+      if (text) blocks.push(block);
+      current = null;
+    }
+    link = null;
+  };
+
+  const tokens = html.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*?)(\/?)>|[^<]+|</g);
+  for (const token of tokens) {
+    const [raw, closing, rawTag, attributes = '', selfClosing] = token;
+    const tag = rawTag?.toLowerCase();
+
+    if (raw.startsWith('<!--')) continue;
+
+    if (skipping) {
+      if (tag === skipping.tag && !selfClosing) skipping.depth += closing ? -1 : 1;
+      if (skipping.depth === 0) skipping = null;
+      continue;
+    }
+
+    if (!tag) {
+      if (mainOnly && mainDepth === 0) continue;
+      const text = decodeEntities(raw);
+      if (cell) {
+        cell.push(text);
+      } else if (current) {
+        current.text += text;
+      } else if (text.trim()) {
+        current = { type: 'paragraph', text };
+      }
+      continue;
+    }
+
+    if (!closing && !selfClosing && !VOID_TAGS.has(tag) && isBoilerplate(tag, parseAttributes(attributes), landmarkDepth)) {
+      skipping = { tag, depth: 1 };
+      continue;
+    }
+
+    if (LANDMARK_TAGS.has(tag)) {
+      landmarkDepth = Math.max(0, landmarkDepth + (closing ? -1 : 1));
+      if (tag === 'main') mainDepth = Math.max(0, mainDepth + (closing ? -1 : 1));
+    }
+
+    if (tag === 'a' && !cell) {
+      const url = closing ? undefined : parseAttributes(attributes).get('href')?.trim();
+      if (url && !/^(?:#|javascript:)/i.test(url)) {
+        if (!current) current = { type: 'paragraph', text: '' };
+        link = { url, start: current.text.length };
+      } else if (closing && link && current) {
+        current.links = [...(current.links || []), { start: link.start, end: current.text.length, url: link.url }];
+        link = null;
+      }
+      continue;
+    }
+
+    if (tag === 'br') {
+      if (cell) cell.push(' ');
+      else if (current) current.text += ' ';
+      continue;
+    }
+
+    if (tag === 'td' || tag === 'th') {
+      if (!closing) {
+        cell = [];
+      } else if (cell) {
+        row?.push(normalizeInline(cell.join('')).text);
+        cell = null;
+      }
+      continue;
+    }
+
+    if (tag === 'tr') {
+      flush();
+      if (!closing) {
+        row = [];
+      } else if (row) {
+        const text = row.filter(Boolean).join(' | ');
+        if (text) blocks.push({ type: 'table-row', text });
+        row = null;
+      }
+      continue;
+    }
+
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      if (!closing) lists.push({ ordered: tag === 'ol', count: 0 });
+      else lists.pop();
+      continue;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) continue;
+
+    // A paragraph inside a list item belongs to the item
+    if (tag === 'p' && current?.type === 'list-item') {
+      if (closing) current.text += ' ';
+      continue;
+    }
+
+    flush();
+    if (closing) continue;
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      current = { type: 'heading', text: '', level: Number(heading[1]) };
+    } else if (tag === 'li') {
+      const list = lists[lists.length - 1];
+      if (list) list.count++;
+      current = {
+        type: 'list-item',
+        text: '',
+        level: Math.max(1, lists.length),
+        marker: list?.ordered ? `${list.count}.` : '-'
+      };
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Join blocks into plain text: blank lines between paragraphs, tables and headings, consecutive list
+ * items and table rows on their own lines, nested items indented. Returns the text with where its
+ * headings, links and tables are.
+ */
+export function blocksToText(blocks: TextBlock[]): StructuredText {
+  const headings: HeadingSpan[] = [];
+  const links: LinkSpan[] = [];
+  const tables: TableSpan[] = [];
+  let content = '';
+  let previous: TextBlock | null = null;
+
+  blocks.forEach(block => {
+    const continues = previous?.type === block.type && (block.type === 'list-item' || block.type === 'table-row');
+    if (previous) {
+      content += continues ? '\n' : '\n\n';
+    }
+
+    if (block.type === 'table-row') {
+      if (continues) tables[tables.length - 1].end = content.length + block.text.length;
+      else tables.push({ start: content.length, end: content.length + block.text.length, headerEnd: content.length + block.text.length });
+    } else if (block.type === 'list-item') {
+      content += `${'  '.repeat((block.level || 1) - 1)}${block.marker || '-'} `;
+    } else if (block.type === 'heading') {
+      headings.push({ start: content.length, end: content.length + block.text.length, level: block.level || 1 });
+    }
+    block.links?.forEach(blockLink => links.push({ ...blockLink, start: content.length + blockLink.start, end: content.length + blockLink.end }));
+    content += block.text;
+    previous = block;
+  });
+
+  return { content, headings, links, tables };
+}
+
+/**
+ * Find heading lines in plain text. Markdown headings and numbered headings ("2.1 Scope") take their
+ * level from the syntax; upper-case lines and a title line at the very start are level 1; other short
+ * stand-alone lines are level 2.
+ */
+export function detectHeadings(content: string): HeadingSpan[] {
+  const lines = Array.from(content.matchAll(/[^\n]+/g), match => ({ start: match.index, text: match[0] }));
+  const headings: HeadingSpan[] = [];
+
+  lines.forEach((line, index) => {
+    const text = line.text.trim();
+    if (!text) return;
+    const start = line.start + line.text.indexOf(text);
+    const span = (level: number) => headings.push({ start, end: start + text.length, level });
+
+    const markdown = text.match(/^(#{1,6})\s+\S/);
+    if (markdown) {
+      span(markdown[1].length);
+      return;
+    }
+
+    const words = text.split(/\s+/).length;
+    if (words > MAX_HEADING_WORDS || CLOSING_PUNCTUATION.test(text) || LIST_ITEM_PATTERN.test(text) || !/^[\p{Lu}\d]/u.test(text)) {
+      return;
+    }
+
+    // Starts a block (blank line or finished sentence before it) and is followed by content that does
+    // not continue it in lower case, as a wrapped line would be
+    const before = content.slice(0, line.start);
+    const standsAlone = !before.trim() || /\n[^\S\n]*\n\s*$/.test(before) || /[.!?:]["')\]]?\s*$/.test(before);
+    let next = index + 1;
+    while (next < lines.length && !lines[next].text.trim()) next++;
+    if (!standsAlone || next === lines.length || /^\s*\p{Ll}/u.test(lines[next].text)) return;
+
+    const numbered = text.match(/^(\d+(?:\.\d+)*)\.?\s+\p{Lu}/u);
+    if (numbered) {
+      span(numbered[1].split('.').length);
+    } else if (text === text.toUpperCase() && /\p{Lu}{2}/u.test(text)) {
+      span(1);
+    } else if (words <= 8) {
+      span(start === 0 ? 1 : 2);
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Heading text without Markdown markers
+ */
+export function headingText(content: string, heading: HeadingSpan): string {
+  return content.slice(heading.start, heading.end).replace(/^#{1,6}\s+/, '').replace(/\s+#+\s*$/, '').trim();
+}
+
+/**
+ * Collapse whitespace runs to single spaces and trim, moving link offsets along with the text
+ */
+export function normalizeInline(text: string, links: LinkSpan[] = []): { text: string; links: LinkSpan[] } {
+  // positions[i] is where raw character i, or the next kept character after it, ends up
+  const positions: number[] = [];
+  let normalized = '';
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const whitespace = /\s/.test(text[i]);
+    positions.push(normalized.length + (pendingSpace && normalized && !whitespace ? 1 : 0));
+    if (whitespace) {
+      pendingSpace = true;
+      continue;
+    }
+    if (pendingSpace && normalized) normalized += ' ';
+    pendingSpace = false;
+    normalized += text[i];
+  }
+  positions.push(normalized.length);
+
+  const moved = links.map(link => {
+    let start = positions[link.start];
+    let end = Math.min(positions[link.end], normalized.length);
+    // Whitespace at the edges of the link text maps onto the separating spaces
+    if (normalized[start] === ' ') start++;
+    if (end > start && normalized[end - 1] === ' ') end--;
+    return { ...link, start, end };
+  });
+
+  return { text: normalized, links: moved.filter(link => link.end > link.start) };
+}
+
+function isBoilerplate(tag: string, attributes: Map<string, string>, landmarkDepth: number): boolean {
+  return SKIPPED_TAGS.has(tag)
+    || (PAGE_CHROME_TAGS.has(tag) && landmarkDepth === 0)
+    || BOILERPLATE_ROLES.has(attributes.get('role')?.toLowerCase() || '')
+    || attributes.has('hidden')
+    || attributes.get('aria-hidden') === 'true';
+}
+
+function parseAttributes(attributes: string): Map<string, string> {
+  const parsed = new Map<string, string>();
+  for (const match of attributes.matchAll(/([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?/g)) {
+    parsed.set(match[1].toLowerCase(), decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+  }
+  return parsed;
+}
+
+export function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { contextWindow, encodingForModel, fitMessagesToContext, getTokenizer } from "./tokenizer";
+
+describe("Tokenizer", () => {
+  it("should count tokens with the model's encoding", () => {
+    const tokenizer = getTokenizer("gpt-4");
+
+    expect(tokenizer.encoding).toBe("cl100k_base");
+    expect(tokenizer.count("hello world")).toBe(2);
+    expect(tokenizer.count("")).toBe(0);
+    expect(getTokenizer("gpt-4o").encoding).toBe("o200k_base");
+  });
+
+  it("should count code and non-English text far above the four-characters-per-token estimate", () => {
+    const tokenizer = getTokenizer("gpt-4");
+    const japanese = "東京都の人口は約千四百万人です。";
+
+    expect(tokenizer.count(japanese)).toBeGreaterThan(japanese.length / 4 * 2);
+  });
+
+  it("should fall back to a default encoding for models it does not know", () => {
+    expect(encodingForModel("text-embedding-004")).toBe("cl100k_base");
+    expect(contextWindow("some-local-model")).toBe(8192);
+    expect(contextWindow("gpt-4-turbo-preview")).toBe(128000);
+    expect(contextWindow("gpt-4")).toBe(8192);
+  });
+
+  it("should truncate at a token boundary", () => {
+    const tokenizer = getTokenizer("gpt-4");
+    const truncated = tokenizer.truncate("one two three four five", 3);
+
+    expect(truncated).toBe("one two three");
+    expect(tokenizer.truncate("short", 10)).toBe("short");
+  });
+});
+
+describe("fitMessagesToContext", () => {
+  const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(" ");
+
+  it("should leave requests that fit unchanged", () => {
+    const messages = [
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: "Hi" },
+    ];
+
+    expect(fitMessagesToContext(messages, "gpt-4", 2000)).toEqual(messages);
+  });
+
+  it("should drop the oldest history first, then truncate the longest message to fit", () => {
+    const tokenizer = getTokenizer("gpt-4");
+    const messages = [
+      { role: "system", content: `Documents: ${filler(4000)}` },
+      { role: "user", content: `Old question ${filler(1000)}` },
+      { role: "assistant", content: "Old answer" },
+      { role: "user", content: "What is in the documents?" },
+    ];
+
+    const fitted = fitMessagesToContext(messages, "gpt-4", 2000);
+
+    expect(fitted.map((message) => message.role)).toEqual(["system", "user"]);
+    expect(fitted[1].content).toBe("What is in the documents?");
+    expect(fitted[0].content.startsWith("Documents: word0 word1")).toBe(true);
+    expect(tokenizer.countMessages(fitted)).toBe(8192 - 2000);
+  });
+});
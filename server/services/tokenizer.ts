@@ -0,0 +1,143 @@
+// Token counting for the models we send text to
+// Chunk limits and prompt budgets are counted with the model's own BPE encoding (js-tiktoken) rather
+// than estimated from characters, which is far off for code, tables and non-English text. Encoders are
+// loaded on first use and shared; each rank table is a few MB, so only the encodings in use are loaded.
+
+import { createRequire } from 'module';
+import { Tiktoken, TiktokenBPE, TiktokenEncoding, TiktokenModel, getEncodingNameForModel } from 'js-tiktoken/lite';
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+// Models js-tiktoken does not know (other providers, local models) are counted with this encoding,
+// which is close enough for budgeting
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+// Context windows by model name prefix, most specific first
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4-1106', 128000],
+  ['gpt-4-0125', 128000],
+  ['gpt-4-vision', 128000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['gpt-5', 400000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000]
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Chat formatting overhead per message and for priming the reply, as counted by the OpenAI API
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+const require = createRequire(import.meta.url);
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Name of the encoding a model tokenizes with
+ */
+export function encodingForModel(model: string): TiktokenEncoding {
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    return FALLBACK_ENCODING;
+  }
+}
+
+export class Tokenizer {
+  readonly encoding: TiktokenEncoding;
+  private encoder: Tiktoken | null = null;
+
+  constructor(readonly model: string) {
+    this.encoding = encodingForModel(model);
+  }
+
+  /**
+   * Number of tokens in a text
+   */
+  count(text: string): number {
+    return text ? this.getEncoder().encode(text, [], []).length : 0;
+  }
+
+  /**
+   * Longest prefix of the text that fits in maxTokens, cut at a token boundary
+   */
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.getEncoder().encode(text, [], []);
+    if (tokens.length <= maxTokens) return text;
+    return this.getEncoder().decode(tokens.slice(0, Math.max(0, maxTokens)));
+  }
+
+  /**
+   * Tokens a chat request uses for its messages, including the per-message formatting
+   */
+  countMessages(messages: ChatMessage[]): number {
+    return messages.reduce((sum, message) => sum + TOKENS_PER_MESSAGE + this.count(message.content), TOKENS_PER_REPLY);
+  }
+
+  private getEncoder(): Tiktoken {
+    if (!this.encoder) {
+      let encoder = encoders.get(this.encoding);
+      if (!encoder) {
+        const ranks: TiktokenBPE = require(`js-tiktoken/ranks/${this.encoding}`);
+        encoder = new Tiktoken(ranks);
+        encoders.set(this.encoding, encoder);
+      }
+      this.encoder = encoder;
+    }
+    return this.encoder;
+  }
+}
+
+/**
+ * Shared tokenizer for a model
+ */
+export function getTokenizer(model: string): Tokenizer {
+  let tokenizer = tokenizers.get(model);
+  if (!tokenizer) {
+    tokenizer = new Tokenizer(model);
+    tokenizers.set(model, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Tokens a model accepts for prompt and reply together
+ */
+export function contextWindow(model: string): number {
+  const match = CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Fit a chat request into the model's context window, leaving room for the reply. The first (system)
+ * and last (current question) messages are kept; history in between is dropped oldest first, then the
+ * longer of the two kept messages is truncated.
+ */
+export function fitMessagesToContext<T extends ChatMessage>(messages: T[], model: string, replyTokens: number): T[] {
+  const tokenizer = getTokenizer(model);
+  const budget = contextWindow(model) - replyTokens;
+  const fitted = [...messages];
+
+  while (fitted.length > 2 && tokenizer.countMessages(fitted) > budget) {
+    fitted.splice(1, 1);
+  }
+
+  const excess = tokenizer.countMessages(fitted) - budget;
+  if (excess > 0) {
+    const counts = fitted.map(message => tokenizer.count(message.content));
+    const longest = counts.indexOf(Math.max(...counts));
+    const message = fitted[longest];
+    fitted[longest] = { ...message, content: tokenizer.truncate(message.content, counts[longest] - excess) };
+  }
+
+  return fitted;
+}
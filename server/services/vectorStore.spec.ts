@@ -0,0 +1,73 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, afterAll } from "vitest";
+import { SemanticSearchService, VectorEmbedding } from "./semanticSearch";
+import { FileVectorStore } from "./vectorStore";
+import { HashingEmbeddingProvider } from "./embeddingProvider";
+import { documentWithChunks } from "./testDocuments";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "vector-store-"));
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+// Hashing embedder that counts the texts it is asked to embed
+class CountingEmbeddingProvider extends HashingEmbeddingProvider {
+  embedded = 0;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded += texts.length;
+    return super.embed(texts);
+  }
+}
+
+const searchOptions = { maxResults: 2, similarityThreshold: 0.05 };
+
+const createService = (filePath: string, embeddingProvider = new CountingEmbeddingProvider()) =>
+  new SemanticSearchService({ store: new FileVectorStore(filePath), embeddingProvider, syncFromDatabase: false });
+
+describe("FileVectorStore", () => {
+  it("should reload saved documents and embeddings from disk", async () => {
+    const filePath = path.join(tempDir, "store.json");
+    const document = documentWithChunks("1", ["Pumps are checked weekly."]);
+    const embedding: VectorEmbedding = {
+      id: "1_0",
+      vector: [0.6, 0.8],
+      model: "test-model",
+      dimension: 2,
+      metadata: { documentId: "1", chunkId: "0", content: "Pumps are checked weekly.", tags: [] },
+    };
+
+    await new FileVectorStore(filePath).saveDocument(document, [embedding]);
+    const snapshot = await new FileVectorStore(filePath).load();
+
+    expect(snapshot.embeddings).toEqual([embedding]);
+    expect(snapshot.documents).toHaveLength(1);
+    expect(snapshot.documents[0].metadata.extractedAt).toEqual(new Date("2024-01-01"));
+  });
+
+  it("should rehydrate the search index after a restart without embedding again", async () => {
+    const filePath = path.join(tempDir, "index.json");
+    const before = createService(filePath);
+    await before.indexDocument(
+      documentWithChunks("1", ["Change the engine oil every 10,000 kilometres.", "Quarterly revenue grew on subscriptions."]),
+    );
+    await before.indexDocument(documentWithChunks("2", ["The cafeteria menu changes every Monday."]));
+    const expected = await before.hybridSearch("engine oil", searchOptions);
+    expect(expected[0]).toMatchObject({ documentId: "1", chunkId: "0" });
+
+    const embeddingProvider = new CountingEmbeddingProvider();
+    const after = createService(filePath, embeddingProvider);
+    await after.initialize();
+
+    expect(after.getIndexStats()).toMatchObject({ totalDocuments: 2, totalEmbeddings: 3, totalChunks: 3 });
+    const results = await after.hybridSearch("engine oil", searchOptions);
+    expect(results.map((r) => [r.documentId, r.chunkId, r.similarity])).toEqual(
+      expected.map((r) => [r.documentId, r.chunkId, r.similarity]),
+    );
+    // Only the query was embedded; the stored chunk vectors were reused
+    expect(embeddingProvider.embedded).toBe(1);
+  });
+});
@@ -0,0 +1,322 @@
+// Durable storage for the semantic search index
+// The in-memory index in SemanticSearchService is rebuilt from one of these stores on startup,
+// so embeddings survive server restarts instead of being regenerated on every upload
+
+import fs from 'fs';
+import path from 'path';
+import { supabase } from '../database';
+import { IndexedDocument, VectorEmbedding } from './semanticSearch';
+
+export interface VectorStoreSnapshot {
+  documents: IndexedDocument[];
+  embeddings: VectorEmbedding[];
+}
+
+export interface VectorStore {
+  readonly name: string;
+  load(): Promise<VectorStoreSnapshot>;
+  saveDocument(document: IndexedDocument, embeddings: VectorEmbedding[]): Promise<void>;
+  removeDocument(documentId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Restore Date fields lost when a document is serialized to JSON
+ */
+function reviveDocument(document: IndexedDocument): IndexedDocument {
+  return {
+    ...document,
+    metadata: {
+      ...document.metadata,
+      extractedAt: new Date(document.metadata?.extractedAt ?? Date.now())
+    },
+    ...(document.uploadDate ? { uploadDate: new Date(document.uploadDate) } : {})
+  };
+}
+
+/**
+ * Non-persistent store, used in tests and when persistence is disabled
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private documents: Map<string, IndexedDocument> = new Map();
+  private embeddings: Map<string, VectorEmbedding[]> = new Map();
+
+  async load(): Promise<VectorStoreSnapshot> {
+    return {
+      documents: Array.from(this.documents.values()),
+      embeddings: Array.from(this.embeddings.values()).flat()
+    };
+  }
+
+  async saveDocument(document: IndexedDocument, embeddings: VectorEmbedding[]): Promise<void> {
+    this.documents.set(document.id, document);
+    this.embeddings.set(document.id, embeddings);
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    this.documents.delete(documentId);
+    this.embeddings.delete(documentId);
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.embeddings.clear();
+  }
+}
+
+/**
+ * Store the whole index as a single JSON file on local disk
+ */
+export class FileVectorStore implements VectorStore {
+  readonly name = 'file';
+  private documents: Map<string, IndexedDocument> | null = null;
+  private embeddings: Map<string, VectorEmbedding[]> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<VectorStoreSnapshot> {
+    await this.ensureLoaded();
+
+    return {
+      documents: Array.from(this.documents.values()),
+      embeddings: Array.from(this.embeddings.values()).flat()
+    };
+  }
+
+  async saveDocument(document: IndexedDocument, embeddings: VectorEmbedding[]): Promise<void> {
+    await this.ensureLoaded();
+    this.documents.set(document.id, document);
+    this.embeddings.set(document.id, embeddings);
+    await this.persist();
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    await this.ensureLoaded();
+    this.documents.delete(documentId);
+    this.embeddings.delete(documentId);
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.documents = new Map();
+    this.embeddings = new Map();
+    await this.persist();
+  }
+
+  /**
+   * Read the index file once and keep it in memory for subsequent writes
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.documents) return;
+
+    this.documents = new Map();
+    this.embeddings = new Map();
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as VectorStoreSnapshot;
+
+      (parsed.documents || []).forEach(document => {
+        this.documents.set(document.id, reviveDocument(document));
+      });
+
+      (parsed.embeddings || []).forEach(embedding => {
+        const documentEmbeddings = this.embeddings.get(embedding.metadata.documentId) || [];
+        documentEmbeddings.push(embedding);
+        this.embeddings.set(embedding.metadata.documentId, documentEmbeddings);
+      });
+    } catch (error) {
+      throw new Error(`Failed to read vector index ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Write the index atomically; writes are serialized so a slow write never clobbers a newer one
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const snapshot: VectorStoreSnapshot = {
+        documents: Array.from(this.documents.values()),
+        embeddings: Array.from(this.embeddings.values()).flat()
+      };
+
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+      await fs.promises.rename(tempPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Store the index in Supabase, using a pgvector column for embeddings
+ * See document_embeddings_table.sql for the schema
+ */
+export class SupabaseVectorStore implements VectorStore {
+  readonly name = 'supabase';
+  private static readonly DOCUMENTS_TABLE = 'indexed_documents';
+  private static readonly EMBEDDINGS_TABLE = 'document_embeddings';
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly INSERT_BATCH_SIZE = 500;
+
+  async load(): Promise<VectorStoreSnapshot> {
+    const { data: documentRows, error: documentError } = await supabase
+      .from(SupabaseVectorStore.DOCUMENTS_TABLE)
+      .select('*');
+
+    if (documentError) {
+      throw new Error(`Failed to load indexed documents: ${documentError.message}`);
+    }
+
+    const embeddings: VectorEmbedding[] = [];
+    for (let from = 0; ; from += SupabaseVectorStore.PAGE_SIZE) {
+      const { data: rows, error } = await supabase
+        .from(SupabaseVectorStore.EMBEDDINGS_TABLE)
+        .select('*')
+        .order('id', { ascending: true })
+        .range(from, from + SupabaseVectorStore.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load document embeddings: ${error.message}`);
+      }
+
+      rows.forEach(row => embeddings.push(this.toEmbedding(row)));
+
+      if (rows.length < SupabaseVectorStore.PAGE_SIZE) break;
+    }
+
+    return {
+      documents: (documentRows || []).map(row => reviveDocument(row.document)),
+      embeddings
+    };
+  }
+
+  async saveDocument(document: IndexedDocument, embeddings: VectorEmbedding[]): Promise<void> {
+    const { error: documentError } = await supabase
+      .from(SupabaseVectorStore.DOCUMENTS_TABLE)
+      .upsert({
+        id: document.id,
+        name: document.name,
+        document,
+        updated_at: new Date().toISOString()
+      });
+
+    if (documentError) {
+      throw new Error(`Failed to save indexed document: ${documentError.message}`);
+    }
+
+    // Replace any previous embeddings for this document
+    const { error: deleteError } = await supabase
+      .from(SupabaseVectorStore.EMBEDDINGS_TABLE)
+      .delete()
+      .eq('document_id', document.id);
+
+    if (deleteError) {
+      throw new Error(`Failed to replace document embeddings: ${deleteError.message}`);
+    }
+
+    for (let i = 0; i < embeddings.length; i += SupabaseVectorStore.INSERT_BATCH_SIZE) {
+      const batch = embeddings.slice(i, i + SupabaseVectorStore.INSERT_BATCH_SIZE);
+      const { error } = await supabase
+        .from(SupabaseVectorStore.EMBEDDINGS_TABLE)
+        .insert(batch.map(embedding => this.toRow(embedding)));
+
+      if (error) {
+        throw new Error(`Failed to save document embeddings: ${error.message}`);
+      }
+    }
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    const { error: embeddingError } = await supabase
+      .from(SupabaseVectorStore.EMBEDDINGS_TABLE)
+      .delete()
+      .eq('document_id', documentId);
+
+    const { error: documentError } = await supabase
+      .from(SupabaseVectorStore.DOCUMENTS_TABLE)
+      .delete()
+      .eq('id', documentId);
+
+    if (embeddingError || documentError) {
+      throw new Error(`Failed to remove indexed document: ${embeddingError?.message || documentError?.message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { error: embeddingError } = await supabase
+      .from(SupabaseVectorStore.EMBEDDINGS_TABLE)
+      .delete()
+      .neq('id', '');
+
+    const { error: documentError } = await supabase
+      .from(SupabaseVectorStore.DOCUMENTS_TABLE)
+      .delete()
+      .neq('id', '');
+
+    if (embeddingError || documentError) {
+      throw new Error(`Failed to clear vector index: ${embeddingError?.message || documentError?.message}`);
+    }
+  }
+
+  private toRow(embedding: VectorEmbedding) {
+    return {
+      id: embedding.id,
+      document_id: embedding.metadata.documentId,
+      chunk_id: embedding.metadata.chunkId,
+      content: embedding.metadata.content,
+      tags: embedding.metadata.tags,
+      embedding: JSON.stringify(embedding.vector),
+      model: embedding.model,
+      dimension: embedding.dimension
+    };
+  }
+
+  private toEmbedding(row: any): VectorEmbedding {
+    // pgvector columns come back from PostgREST as a "[1,2,3]" string
+    const vector = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+
+    return {
+      id: row.id,
+      vector,
+      model: row.model,
+      dimension: row.dimension ?? vector.length,
+      metadata: {
+        documentId: row.document_id,
+        chunkId: row.chunk_id,
+        content: row.content,
+        tags: row.tags || []
+      }
+    };
+  }
+}
+
+/**
+ * Create the vector store selected by the VECTOR_STORE environment variable
+ */
+export function createVectorStore(): VectorStore {
+  const storeType = (process.env.VECTOR_STORE || 'file').toLowerCase();
+
+  switch (storeType) {
+    case 'supabase':
+      return new SupabaseVectorStore();
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'file':
+      return new FileVectorStore(
+        process.env.VECTOR_STORE_PATH || path.join(process.cwd(), 'data', 'vector-index.json')
+      );
+    default:
+      console.warn(`⚠️  Unknown VECTOR_STORE "${storeType}", falling back to file storage`);
+      return new FileVectorStore(path.join(process.cwd(), 'data', 'vector-index.json'));
+  }
+}
@@ -6,6 +6,20 @@ function safeLog() {
   // avoid noisy logs interfering with JSON output
 }
 
+// Same text layout as pdf-parse's default renderer (a new line whenever the baseline moves),
+// but each page's text is also kept separately so page boundaries survive extraction
+async function renderPage(pageData, pages) {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+    lastY = item.transform[5];
+  }
+  pages[pageData.pageIndex] = text;
+  return text;
+}
+
 (async () => {
   try {
     const pdfParse = require('pdf-parse');
@@ -14,9 +28,16 @@ function safeLog() {
       console.error(JSON.stringify({ error: 'PDF path missing or not found', path: pdfPath }));
       process.exit(2);
     }
-    const dataBuffer = fs.readFileSync(pdfPath);
-    const result = await pdfParse(dataBuffer);
-    const payload = { text: result?.text || '' };
+    // A copy that owns its memory: pdf.js reads the underlying ArrayBuffer, which for small files
+    // can be a shared pool with the PDF at a non-zero offset
+    const dataBuffer = new Uint8Array(fs.readFileSync(pdfPath));
+    const pages = [];
+    const result = await pdfParse(dataBuffer, { pagerender: page => renderPage(page, pages) });
+    const payload = {
+      text: result?.text || '',
+      pages: Array.from({ length: result?.numpages || 0 }, (_, index) => pages[index] || ''),
+      numPages: result?.numpages || 0
+    };
     process.stdout.write(JSON.stringify(payload));
     process.exit(0);
   } catch (err) {
@@ -29,6 +29,9 @@ export interface OpenAIResponse {
   sources?: string[];
   webResults?: WebSearchResult[];
   responseTime?: number;
+  metadata?: {
+    rewrittenQuery: string; // standalone query used for document and web search
+  };
 }
 
 /**
@@ -69,6 +72,109 @@ export interface WebSearchResponse {
 
 
 
+/**
+ * Document search API types
+ */
+export interface DocumentSearchFilters {
+  documentIds?: string[];
+  tags?: string[]; // matches documents having any of these tags
+  fileType?: string | string[]; // ".pdf" or "pdf"
+  uploadedAfter?: string; // ISO date
+  uploadedBefore?: string; // ISO date; a date without a time includes that whole day
+  sessionId?: string;
+  userId?: string;
+}
+
+// Second-stage reranking of retrieved chunks
+export type RerankMethod = 'none' | 'lexical' | 'llm';
+
+// How the query is turned into retrieval vectors: as is, as several LLM paraphrases, or via a hypothetical answer (HyDE)
+export type RetrievalMode = 'standard' | 'multi-query' | 'hyde';
+
+export interface DocumentSearchRequest {
+  query: string;
+  documentIds?: string[];
+  filters?: DocumentSearchFilters;
+  maxResults?: number;
+  rerank?: RerankMethod;
+  mmr?: boolean; // diversify results and drop overlapping chunks from the same document
+  mmrLambda?: number; // 1 = pure relevance, 0 = pure novelty
+  retrievalMode?: RetrievalMode;
+}
+
+// "Did you mean" correction for query words that do not occur in the indexed documents
+export interface QuerySuggestion {
+  query: string; // the query with the corrections applied
+  corrections: Array<{
+    original: string;
+    suggestion: string;
+    start: number; // character offsets of the original word in the query
+    end: number;
+  }>;
+}
+
+// A query term found in a search result chunk
+export interface SearchTermMatch {
+  term: string; // stemmed query term that matched
+  text: string; // matched text as it appears in the chunk
+  start: number; // character offsets within the chunk
+  end: number;
+  documentStart?: number; // character offsets within the document content
+  documentEnd?: number;
+}
+
+// A document similar to the document or chunk a "more like this" request started from
+export interface RelatedDocument {
+  documentId: string;
+  documentName: string;
+  similarity: number; // mean over the source chunks of their best match in this document
+  matchedChunks: number; // chunks of this document among the nearest neighbours
+}
+
+export interface RelatedChunk {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  content: string;
+  similarity: number;
+}
+
+// What to do with an upload that duplicates an existing document: ask the user first (default),
+// skip the upload, replace the existing document, or keep both
+export type DuplicateAction = 'ask' | 'skip' | 'replace' | 'keep';
+
+// An existing document that an upload duplicates
+export interface DuplicateMatch {
+  documentId: string;
+  documentName: string;
+  type: 'exact-file' | 'exact-content' | 'near';
+  similarity: number; // estimated Jaccard similarity of the extracted text, 1 for exact matches
+}
+
+// Progress of the background reindex that brings documents up to the current pipeline version
+export interface ReindexProgress {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  pipelineVersion: string;  // chunking options and embedding model documents are being brought up to
+  staleDocuments: number;   // documents still on an older pipeline version
+  total: number;            // stale documents when the current or last run started
+  processed: number;
+  failed: number;
+  currentDocument?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  errors: Array<{ documentId: string; documentName: string; error: string }>; // documents that failed to reindex
+  error?: string;           // why the whole run failed
+}
+
+export interface RelatedContentResponse {
+  success: boolean;
+  documentId?: string;
+  chunkId?: string;
+  documents?: RelatedDocument[];
+  chunks?: RelatedChunk[];
+  error?: string;
+}
+
 /**
  * Template API types
  */